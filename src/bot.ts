@@ -1,12 +1,18 @@
 import { Client, GatewayIntentBits, Message, EmbedBuilder, AttachmentBuilder, Events, Interaction } from 'discord.js';
 import dotenv from 'dotenv';
 import { handleMessageCreate } from './events/messageCreate';
+import { handleReviewInteraction, isReviewInteraction } from './events/reviewInteraction';
 import { handleCommand } from './commands';
 import { registerSlashCommands, handleSlashCommand } from './commands/slashCommands';
 import { ocrService } from './services/ocr';
 import { databaseService } from './services/database';
 import { logger } from './services/logger';
 import { dmCleanupService } from './services/dmCleanup';
+import { rankConfigService } from './services/rankConfig';
+import { ocrConfusionService } from './services/ocrConfusions';
+import { evidenceStore } from './services/evidence';
+import { screenshotHashService } from './services/screenshotHash';
+import { verificationExpiryService } from './services/verificationExpiry';
 import path from 'path';
 import fs from 'fs';
 
@@ -40,6 +46,10 @@ async function initializeServices(): Promise<void> {
   try {
     logger.info('Initializing services...');
     
+    // Load and validate the rank table
+    rankConfigService.initialize();
+    ocrConfusionService.initialize();
+
     // Initialize OCR service
     await ocrService.initialize();
     logger.info('OCR service initialized');
@@ -48,6 +58,15 @@ async function initializeServices(): Promise<void> {
     await databaseService.getClient().$connect();
     logger.info('Database connected');
 
+    // Purge archived screenshots past their retention period
+    evidenceStore.start();
+
+    // Delete screenshot hashes past their retention period
+    screenshotHashService.start();
+
+    // Remind users with old verifications to verify again
+    verificationExpiryService.start();
+
     logger.info('All services initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize services', { error });
@@ -196,7 +215,7 @@ async function sendVerificationChannelInstructions(): Promise<void> {
   }
 }
 
-// Event: Interaction create (for slash commands)
+// Event: Interaction create (for slash commands and review buttons)
 client.on(Events.InteractionCreate, async (interaction: Interaction) => {
   try {
     if (interaction.isAutocomplete()) {
@@ -204,6 +223,8 @@ client.on(Events.InteractionCreate, async (interaction: Interaction) => {
       await handleAutocomplete(interaction);
     } else if (interaction.isChatInputCommand()) {
       await handleSlashCommand(interaction);
+    } else if ((interaction.isButton() || interaction.isModalSubmit()) && isReviewInteraction(interaction.customId)) {
+      await handleReviewInteraction(interaction);
     }
   } catch (error) {
     logger.error('Error handling interaction', { error, interaction_id: interaction.id });
@@ -263,6 +284,18 @@ async function shutdown(): Promise<void> {
     dmCleanupService.cleanup();
     logger.info('DM cleanup service cleaned up');
 
+    // Stop watching the rank table
+    rankConfigService.stopWatching();
+
+    // Stop purging archived screenshots
+    evidenceStore.stop();
+
+    // Stop pruning screenshot hashes
+    screenshotHashService.stop();
+
+    // Stop the verification expiry check
+    verificationExpiryService.stop();
+
     // Terminate OCR service
     await ocrService.terminate();
     logger.info('OCR service terminated');
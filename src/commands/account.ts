@@ -0,0 +1,100 @@
+import { Message } from 'discord.js';
+import { accountLinkService } from '../services/accountLinks';
+import { logger } from '../services/logger';
+
+/**
+ * Handle account commands (available to everyone)
+ */
+export async function handleAccountCommand(
+  message: Message,
+  command: string,
+  args: string[]
+): Promise<boolean> {
+  switch (command) {
+    case 'link-account':
+      return await handleLinkAccount(message, args);
+    case 'unlink-account':
+      return await handleUnlinkAccount(message);
+    default:
+      return false;
+  }
+}
+
+/**
+ * !link-account <unique id> - Link your 8 Ball Pool Unique ID to your Discord account
+ */
+async function handleLinkAccount(message: Message, args: string[]): Promise<boolean> {
+  if (args.length < 1) {
+    await message.reply('Usage: `!link-account <unique id>` (e.g. `!link-account 123-456-789-0`)');
+    return true;
+  }
+
+  try {
+    const result = await accountLinkService.link(message.author.id, args.join(' '));
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'command_executed',
+      user_id: message.author.id,
+      username: message.author.username,
+      command_name: 'link-account',
+      success: result.status === 'linked',
+      error_message: result.status === 'linked' ? undefined : result.status,
+    });
+
+    switch (result.status) {
+      case 'invalid_format':
+        await message.reply('❌ That doesn\'t look like an 8 Ball Pool Unique ID. It has 10 digits and is shown on your Profile screen as `123-456-789-0`.');
+        break;
+      case 'mismatch':
+        await message.reply(
+          `❌ The Unique ID on your verification screenshot is \`${result.screenshot_unique_id}\`, not \`${result.unique_id}\`. ` +
+          'Link the account you verified with, or upload a new screenshot of the account you want to link.'
+        );
+        break;
+      case 'claimed':
+        await message.reply(
+          `❌ Unique ID \`${result.unique_id}\` has already been verified by another Discord user. ` +
+          'If this is your account, upload a screenshot of its Profile screen to verify, or contact a moderator.'
+        );
+        break;
+      case 'linked':
+        await message.reply(
+          result.verified
+            ? `✅ Linked to Unique ID \`${result.unique_id}\` (matches your verification screenshot).`
+            : `✅ Linked to Unique ID \`${result.unique_id}\`. It couldn't be checked against a verification screenshot yet.`
+        );
+        break;
+    }
+    return true;
+  } catch (error) {
+    logger.error('Error in link-account command', { error });
+    await message.reply('An error occurred while linking your account.');
+    return true;
+  }
+}
+
+/**
+ * !unlink-account - Remove your linked 8 Ball Pool Unique ID
+ */
+async function handleUnlinkAccount(message: Message): Promise<boolean> {
+  try {
+    const removed = await accountLinkService.unlink(message.author.id);
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'command_executed',
+      user_id: message.author.id,
+      username: message.author.username,
+      command_name: 'unlink-account',
+      success: true,
+    });
+
+    await message.reply(removed ? '✅ Your 8 Ball Pool account has been unlinked.' : 'You don\'t have a linked 8 Ball Pool account.');
+    return true;
+  } catch (error) {
+    logger.error('Error in unlink-account command', { error });
+    await message.reply('An error occurred while unlinking your account.');
+    return true;
+  }
+}
@@ -1,9 +1,19 @@
-import { Message, TextChannel, EmbedBuilder, AttachmentBuilder } from 'discord.js';
+import { Guild, Message, TextChannel, EmbedBuilder, AttachmentBuilder } from 'discord.js';
 import path from 'path';
 import fs from 'fs';
 import { databaseService } from '../services/database';
 import { roleManager } from '../services/roleManager';
 import { rankMatcher } from '../services/rankMatcher';
+import { rankConfigService } from '../services/rankConfig';
+import { guildRoleService } from '../services/guildRoles';
+import { ocrConfusionService } from '../services/ocrConfusions';
+import { guildSettingsService, DOWNGRADE_POLICIES } from '../services/guildSettings';
+import { evidenceStore } from '../services/evidence';
+import { verificationExpiryService } from '../services/verificationExpiry';
+import { screenshotReader } from '../services/screenshotReader';
+import { verificationRecorder } from '../services/verificationRecorder';
+import { OCRQueueFullError, OCRTimeoutError } from '../services/ocrPool';
+import { ExpiringVerification, ImageFormat, ScreenshotReading } from '../types';
 import { logger } from '../services/logger';
 
 /**
@@ -28,13 +38,27 @@ export async function handleAdminCommand(
       return await handleLogs(message);
     case 'instructions':
       return await handleInstructions(message);
+    case 'reloadranks':
+      return await handleReloadRanks(message);
+    case 'maprole':
+      return await handleMapRole(message, args);
+    case 'unmaprole':
+      return await handleUnmapRole(message, args);
+    case 'rolemap':
+      return await handleRoleMap(message);
+    case 'addconfusion':
+      return await handleAddConfusion(message, args);
+    case 'downgradepolicy':
+      return await handleDowngradePolicy(message, args);
+    case 'expiring':
+      return await handleExpiring(message, args);
     default:
       return false;
   }
 }
 
 /**
- * !recheck <@user> - Re-process user's latest verification
+ * !recheck <@user> [apply] - Re-run OCR and rank matching on the user's archived screenshot
  */
 async function handleRecheck(
   message: Message,
@@ -42,7 +66,7 @@ async function handleRecheck(
   extractUserIdFn: (arg: string) => string | null
 ): Promise<boolean> {
   if (args.length < 1) {
-    await message.reply('Usage: `!recheck <@user>`');
+    await message.reply('Usage: `!recheck <@user> [apply]`');
     return true;
   }
 
@@ -51,6 +75,7 @@ async function handleRecheck(
     await message.reply('Invalid user. Please mention a user or provide a user ID.');
     return true;
   }
+  const apply = args[1]?.toLowerCase() === 'apply';
 
   try {
     const verification = await databaseService.getVerification(userId);
@@ -59,7 +84,116 @@ async function handleRecheck(
       return true;
     }
 
-    await message.reply(`User ${args[0]} is currently verified as **${verification.rank_name}** (Level ${verification.level_detected}).\n\nNote: This command would re-process their latest verification image, but that functionality requires storing image URLs in the database. For now, please ask the user to upload a new screenshot.`);
+    const evidence = await evidenceStore.get(userId);
+    if (!evidence) {
+      await message.reply(
+        `User ${args[0]} is currently verified as **${verification.rank_name}** (Level ${verification.level_detected}), ` +
+        `but there is no archived screenshot to re-process (screenshots are kept for ${evidenceStore.getRetentionDays()} days). ` +
+        `Please ask the user to upload a new screenshot.`
+      );
+      return true;
+    }
+
+    // Run the current OCR and matcher again, bypassing cached OCR results
+    const filePath = evidenceStore.getPath(evidence);
+    let reading: ScreenshotReading;
+    try {
+      reading = await screenshotReader.read(filePath, evidence.file_name, true);
+    } catch (error) {
+      if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+        await message.reply('⏳ The OCR queue is busy right now. Please try the recheck again in a few minutes.');
+        return true;
+      }
+      throw error;
+    }
+
+    const match = reading.candidates[0];
+    const newLevel = match ? match.level_detected || match.level_min : null;
+    const changed = !!match && (match.rank_name !== verification.rank_name || newLevel !== verification.level_detected);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🔁 Recheck: ${verification.username}`)
+      .setColor(changed ? 0xF1C40F : 0x00AE86)
+      .setThumbnail(`attachment://${evidence.file_name}`)
+      .addFields(
+        {
+          name: 'Current Verification',
+          value: `**${verification.rank_name}** (Level ${verification.level_detected})\nUpdated: ${verification.updated_at.toLocaleString()}`,
+          inline: false,
+        },
+        {
+          name: 'Archived Result',
+          value: `**${evidence.rank_name}** (Level ${evidence.level_detected}, ${Math.round(evidence.confidence * 100)}%)\n` +
+            `OCR: ${Math.round(evidence.ocr_confidence)}% (${evidence.ocr_variant || 'original'})\n` +
+            `Submitted: ${evidence.created_at.toLocaleString()}`,
+          inline: true,
+        },
+        {
+          name: 'New Result',
+          value: match
+            ? `**${match.rank_name}** (Level ${newLevel}, ${Math.round(match.confidence * 100)}%)\n` +
+              `OCR: ${Math.round(reading.ocr.confidence)}% (${reading.ocr.variant || 'original'})\n` +
+              `Text ${reading.ocr.text === evidence.ocr_text ? 'unchanged' : 'changed'}`
+            : reading.is_profile ? 'No rank matched' : 'Not recognized as a profile screenshot',
+          inline: true,
+        }
+      )
+      .setTimestamp();
+
+    // Read now, since applying the result replaces the archived file
+    const files = [new AttachmentBuilder(await fs.promises.readFile(filePath), { name: evidence.file_name })];
+
+    if (!apply || !match || !changed) {
+      if (apply) {
+        embed.setFooter({
+          text: match ? 'Nothing applied: the new result is the same as the current verification.' : 'Nothing applied: the new result has no rank.',
+        });
+      } else if (changed) {
+        embed.setFooter({ text: `Run !recheck ${userId} apply to apply the new result.` });
+      }
+      await message.reply({ embeds: [embed], files });
+      return true;
+    }
+
+    const member = await message.guild?.members.fetch(userId).catch(() => undefined);
+    if (!member) {
+      embed.setFooter({ text: 'Nothing applied: the user is not in this server.' });
+      await message.reply({ embeds: [embed], files });
+      return true;
+    }
+
+    // No hash is recorded: the archived screenshot's hash was stored when it first verified
+    const roleId = await verificationRecorder.record({
+      member,
+      rank: {
+        role_id: match.role_id,
+        rank_name: match.rank_name,
+        level_min: match.level_min,
+        level_max: match.level_max,
+      },
+      level: newLevel!,
+      confidence: match.confidence,
+      language: reading.language,
+      profile: reading.profile,
+      evidence: evidenceStore.toSource(filePath, evidence.format as ImageFormat, reading),
+    });
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'verification_updated',
+      user_id: userId,
+      username: member.user.username,
+      rank_name: match.rank_name,
+      level_detected: newLevel!,
+      role_id_assigned: roleId,
+      success: true,
+      command_name: 'recheck',
+      ocr_variant: reading.ocr.variant,
+      language: reading.language ?? undefined,
+    });
+
+    embed.setFooter({ text: `Applied: ${match.rank_name} (Level ${newLevel})` });
+    await message.reply({ embeds: [embed], files });
     return true;
   } catch (error) {
     logger.error('Error in recheck command', { error });
@@ -104,6 +238,7 @@ async function handleSetRank(
 
     // Assign role
     await roleManager.assignRankRole(member, rank);
+    const roleId = await roleManager.getRankRoleId(member.guild.id, rank);
 
     // Update database
     await databaseService.upsertVerification({
@@ -111,7 +246,7 @@ async function handleSetRank(
       username: member.user.username,
       rank_name: rank.rank_name,
       level_detected: rank.level_min,
-      role_id_assigned: rank.role_id,
+      role_id_assigned: roleId,
     });
 
     await logger.logAction({
@@ -121,7 +256,7 @@ async function handleSetRank(
       username: member.user.username,
       rank_name: rank.rank_name,
       level_detected: rank.level_min,
-      role_id_assigned: rank.role_id,
+      role_id_assigned: roleId,
       success: true,
       command_name: 'setrank',
     });
@@ -238,6 +373,268 @@ async function handleLogs(message: Message): Promise<boolean> {
   return true;
 }
 
+/**
+ * !reloadranks - Reload and validate the rank table from disk
+ */
+async function handleReloadRanks(message: Message): Promise<boolean> {
+  try {
+    const result = rankConfigService.reload();
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'command_executed',
+      user_id: message.author.id,
+      username: message.author.username,
+      command_name: 'reloadranks',
+      success: result.success,
+      error_message: result.success ? undefined : result.errors.join('; '),
+    });
+
+    if (!result.success) {
+      const problems = result.errors.slice(0, 10).map(error => `• ${error}`).join('\n');
+      const more = result.errors.length > 10 ? `\n…and ${result.errors.length - 10} more` : '';
+      await message.reply(`❌ Rank config was not reloaded, still using the current ${result.rank_count} ranks:\n${problems}${more}`);
+      return true;
+    }
+
+    await message.reply(`✅ Rank config reloaded (${result.rank_count} ranks).`);
+    return true;
+  } catch (error) {
+    logger.error('Error in reloadranks command', { error });
+    await message.reply('An error occurred while reloading the rank config.');
+    return true;
+  }
+}
+
+/**
+ * Extract a role mention (<@&id>) or plain role ID from an argument
+ */
+function extractRoleId(arg: string): string | null {
+  const mentionMatch = arg.match(/^<@&(\d+)>$/);
+  if (mentionMatch) {
+    return mentionMatch[1];
+  }
+  return /^\d+$/.test(arg) ? arg : null;
+}
+
+/**
+ * !maprole <@role> <rank> - Use a role of this server for a rank
+ */
+async function handleMapRole(message: Message, args: string[]): Promise<boolean> {
+  if (args.length < 2) {
+    await message.reply('Usage: `!maprole <@role> <rank>`');
+    return true;
+  }
+
+  const guild = message.guild;
+  if (!guild) {
+    return true;
+  }
+
+  const roleId = extractRoleId(args[0]);
+  const role = roleId ? guild.roles.cache.get(roleId) : undefined;
+  if (!role) {
+    await message.reply('Invalid role. Please mention a role or provide a role ID from this server.');
+    return true;
+  }
+
+  const rankName = args.slice(1).join(' ');
+  const rank = rankMatcher.getRankByName(rankName);
+  if (!rank) {
+    await message.reply(`Invalid rank name: "${rankName}". Please use a valid rank name.`);
+    return true;
+  }
+
+  try {
+    const previousRoleId = await guildRoleService.getRoleId(guild.id, rank);
+    await guildRoleService.setRole(guild.id, rank, role.id);
+    const roleNote = await moveRankRoleMembers(guild, previousRoleId, role.id);
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'command_executed',
+      user_id: message.author.id,
+      username: message.author.username,
+      rank_name: rank.rank_name,
+      role_id_assigned: role.id,
+      command_name: 'maprole',
+      success: true,
+    });
+
+    await message.reply(`✅ **${rank.rank_name}** now uses the ${role.name} role in this server.${roleNote}`);
+    return true;
+  } catch (error) {
+    logger.error('Error in maprole command', { error });
+    await message.reply('An error occurred while mapping the role.');
+    return true;
+  }
+}
+
+/**
+ * After a rank's role mapping changed, move members from the previous role to the rank's new one,
+ * since rank role cleanup no longer recognises the previous role. Returns a note for the reply.
+ */
+async function moveRankRoleMembers(guild: Guild, previousRoleId: string, newRoleId: string | null): Promise<string> {
+  // Still a rank role (e.g. used by another rank), so it is still cleaned up on the next verification
+  if (previousRoleId === newRoleId || await guildRoleService.isRankRole(guild.id, previousRoleId)) {
+    return '';
+  }
+
+  const previousRole = guild.roles.cache.get(previousRoleId);
+  if (!previousRole) return '';
+
+  const newRole = newRoleId ? guild.roles.cache.get(newRoleId) : undefined;
+  if (!newRole) {
+    const holders = (await guild.members.fetch()).filter(member => member.roles.cache.has(previousRole.id)).size;
+    return holders > 0
+      ? `\n⚠️ ${holders} member(s) still have the previous role ${previousRole.name}, which is no longer a rank role. Remove it by hand, or map a role for this rank.`
+      : '';
+  }
+
+  const { moved, failed } = await roleManager.moveRankRole(guild, previousRole.id, newRole.id);
+  let note = moved > 0 ? `\nMoved ${moved} member(s) from ${previousRole.name} to ${newRole.name}.` : '';
+  if (failed > 0) {
+    note += `\n⚠️ ${failed} member(s) couldn't be moved and still have ${previousRole.name}; move them by hand.`;
+  }
+  return note;
+}
+
+/**
+ * !unmaprole <rank> - Remove this server's role mapping for a rank
+ */
+async function handleUnmapRole(message: Message, args: string[]): Promise<boolean> {
+  if (args.length < 1) {
+    await message.reply('Usage: `!unmaprole <rank>`');
+    return true;
+  }
+
+  const guild = message.guild;
+  if (!guild) {
+    return true;
+  }
+
+  // Stale mappings (for ranks since removed from the rank table) can be removed by exact name
+  const rankName = args.join(' ');
+  const rank = rankMatcher.getRankByName(rankName);
+
+  try {
+    const previousRoleId = rank
+      ? await guildRoleService.getRoleId(guild.id, rank)
+      : (await guildRoleService.getStaleMappings(guild.id)).find(mapping => mapping.rank_name === rankName)?.role_id;
+    const removed = await guildRoleService.removeRole(guild.id, rank ? rank.rank_name : rankName);
+    if (!removed) {
+      await message.reply(`**${rank ? rank.rank_name : rankName}** has no role mapped in this server.`);
+      return true;
+    }
+    // The rank falls back to the rank table's role; a rank no longer in the table has none
+    const roleNote = previousRoleId
+      ? await moveRankRoleMembers(guild, previousRoleId, rank ? await guildRoleService.getRoleId(guild.id, rank) : null)
+      : '';
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'command_executed',
+      user_id: message.author.id,
+      username: message.author.username,
+      rank_name: rank ? rank.rank_name : rankName,
+      command_name: 'unmaprole',
+      success: true,
+    });
+
+    await message.reply(`✅ Removed the role mapping for **${rank ? rank.rank_name : rankName}** in this server.${roleNote}`);
+    return true;
+  } catch (error) {
+    logger.error('Error in unmaprole command', { error });
+    await message.reply('An error occurred while removing the role mapping.');
+    return true;
+  }
+}
+
+/**
+ * !rolemap - Show which role each rank uses in this server
+ */
+async function handleRoleMap(message: Message): Promise<boolean> {
+  const guild = message.guild;
+  if (!guild) {
+    return true;
+  }
+
+  try {
+    const ranks = await guildRoleService.getRanksForGuild(guild.id);
+    const stale = await guildRoleService.getStaleMappings(guild.id);
+
+    const lines = ranks.map(rank => {
+      const role = guild.roles.cache.get(rank.role_id);
+      const status = role ? `<@&${role.id}>` : '⚠️ role not found in this server';
+      return `**${rank.rank_name}** (${rank.level_min}-${rank.level_max}): ${status}${rank.mapped ? '' : ' _(default)_'}`;
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle('Rank Roles')
+      .setDescription(lines.join('\n'))
+      .setColor(0x00AE86)
+      .setTimestamp();
+
+    if (stale.length > 0) {
+      embed.addFields({
+        name: 'Mappings for unknown ranks',
+        value: stale.map(mapping => `${mapping.rank_name}: <@&${mapping.role_id}>`).join('\n'),
+        inline: false,
+      });
+    }
+
+    await message.reply({ embeds: [embed] });
+    return true;
+  } catch (error) {
+    logger.error('Error in rolemap command', { error });
+    await message.reply('An error occurred while loading the role mappings.');
+    return true;
+  }
+}
+
+/**
+ * !addconfusion <ocr read> <correct> [cost] - Teach the matcher a mistake tesseract makes
+ */
+async function handleAddConfusion(message: Message, args: string[]): Promise<boolean> {
+  if (args.length < 2) {
+    await message.reply('Usage: `!addconfusion <ocr read> <correct> [cost]` (e.g. `!addconfusion 0verlord Overlord`)');
+    return true;
+  }
+
+  const [observed, expected] = args;
+  const cost = args[2] !== undefined ? parseFloat(args[2]) : undefined;
+  if (cost !== undefined && !(cost >= 0 && cost <= 1)) {
+    await message.reply('Cost must be a number between 0 and 1.');
+    return true;
+  }
+
+  try {
+    const added = ocrConfusionService.learn(observed, expected, cost);
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'command_executed',
+      user_id: message.author.id,
+      username: message.author.username,
+      command_name: 'addconfusion',
+      success: added.length > 0,
+    });
+
+    if (added.length === 0) {
+      await message.reply(`No character confusions found between "${observed}" and "${expected}".`);
+      return true;
+    }
+
+    const pairs = added.map(c => `\`${c.ocr}\` → \`${c.text}\` (cost ${c.cost})`).join('\n');
+    await message.reply(`✅ Added ${added.length} OCR confusion(s):\n${pairs}`);
+    return true;
+  } catch (error) {
+    logger.error('Error in addconfusion command', { error });
+    await message.reply(`❌ ${error instanceof Error ? error.message : 'An error occurred while adding the confusion.'}`);
+    return true;
+  }
+}
+
 /**
  * !instructions - Resend verification channel instructions
  */
@@ -319,3 +716,118 @@ async function handleInstructions(message: Message): Promise<boolean> {
   }
 }
 
+
+/**
+ * !downgradepolicy [highest|latest|review|default] - Show or set what happens to screenshots showing a lower rank
+ */
+async function handleDowngradePolicy(message: Message, args: string[]): Promise<boolean> {
+  const guild = message.guild;
+  if (!guild) {
+    return true;
+  }
+
+  const descriptions: Record<string, string> = {
+    highest: 'keep the highest verified rank',
+    latest: 'always use the latest screenshot',
+    review: 'send lower ranks to moderators for approval',
+  };
+
+  try {
+    if (args.length === 0) {
+      const policy = await guildSettingsService.getDowngradePolicy(guild.id);
+      const isOwn = await guildSettingsService.hasOwnDowngradePolicy(guild.id);
+      await message.reply(
+        `Downgrade policy in this server: **${policy}** (${descriptions[policy]})${isOwn ? '' : ' _(default)_'}\n` +
+        `Usage: \`!downgradepolicy <${DOWNGRADE_POLICIES.join('|')}|default>\``
+      );
+      return true;
+    }
+
+    const value = args[0].toLowerCase();
+    if (value !== 'default' && !guildSettingsService.isDowngradePolicy(value)) {
+      await message.reply(`Invalid policy: "${args[0]}". Use one of: ${DOWNGRADE_POLICIES.join(', ')}, default.`);
+      return true;
+    }
+
+    await guildSettingsService.setDowngradePolicy(guild.id, value === 'default' ? null : value);
+    const policy = await guildSettingsService.getDowngradePolicy(guild.id);
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'command_executed',
+      user_id: message.author.id,
+      username: message.author.username,
+      command_name: 'downgradepolicy',
+      downgrade_policy: policy,
+      success: true,
+    });
+
+    const note = policy === 'review' && !process.env.REVIEW_CHANNEL_ID
+      ? '\n⚠️ REVIEW_CHANNEL_ID is not set, so lower ranks will be ignored until a review channel is configured.'
+      : '';
+    await message.reply(`✅ Downgrade policy in this server is now **${policy}** (${descriptions[policy]})${value === 'default' ? ' _(default)_' : ''}.${note}`);
+    return true;
+  } catch (error) {
+    logger.error('Error in downgradepolicy command', { error });
+    await message.reply('An error occurred while updating the downgrade policy.');
+    return true;
+  }
+}
+
+/**
+ * !expiring [days] - Preview which verifications the expiry check would remind or expire
+ */
+async function handleExpiring(message: Message, args: string[]): Promise<boolean> {
+  const configuredDays = verificationExpiryService.getMaxAgeDays();
+  const days = args.length > 0 ? parseInt(args[0], 10) : configuredDays;
+  if (days === null || !Number.isFinite(days) || days <= 0) {
+    await message.reply(
+      'Usage: `!expiring [days]`' +
+      (configuredDays === null ? '\nVERIFICATION_MAX_AGE_DAYS is not set, so give the age in days to preview.' : '')
+    );
+    return true;
+  }
+
+  try {
+    const preview = await verificationExpiryService.preview(days);
+
+    // At most 15 users per field, to stay within Discord's field size
+    const list = (entries: ExpiringVerification[], date: (entry: ExpiringVerification) => Date) => {
+      if (entries.length === 0) return '_None_';
+      const lines = entries.slice(0, 15).map(entry =>
+        `<@${entry.discord_id}> - ${entry.rank_name} (${date(entry).toLocaleDateString()})`
+      );
+      if (entries.length > 15) {
+        lines.push(`_...and ${entries.length - 15} more_`);
+      }
+      return lines.join('\n');
+    };
+
+    const status = configuredDays === null
+      ? 'The expiry check is off (VERIFICATION_MAX_AGE_DAYS is not set).'
+      : days === configuredDays
+        ? 'The expiry check runs every hour with this age.'
+        : `The expiry check runs every hour with an age of ${configuredDays} days; this preview uses ${days}.`;
+
+    const embed = new EmbedBuilder()
+      .setTitle('🔄 Verification Expiry Preview')
+      .setDescription(
+        `Verifications not renewed for **${days}** days get a reminder; **${preview.grace_days}** days later ` +
+        `the expiry action (**${preview.action}**) is applied.\n${status}`
+      )
+      .addFields(
+        { name: `Reminder due (${preview.remind.length})`, value: list(preview.remind, entry => entry.verified_at), inline: false },
+        { name: `Expiry due (${preview.expire.length})`, value: list(preview.expire, entry => entry.reminded_at!), inline: false },
+        { name: `Already expired (${preview.expired.length})`, value: list(preview.expired, entry => entry.expired_at!), inline: false }
+      )
+      .setColor(0x3498DB)
+      .setTimestamp();
+
+    await message.reply({ embeds: [embed] });
+    return true;
+  } catch (error) {
+    logger.error('Error in expiring command', { error });
+    await message.reply('An error occurred while checking expiring verifications.');
+    return true;
+  }
+}
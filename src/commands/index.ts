@@ -1,6 +1,7 @@
 import { Message } from 'discord.js';
 import { handleAdminCommand } from './admin';
 import { handleModeratorCommand } from './moderator';
+import { handleAccountCommand } from './account';
 import { logger } from '../services/logger';
 
 const COMMAND_PREFIX = process.env.COMMAND_PREFIX || '!';
@@ -107,6 +108,11 @@ export async function handleCommand(message: Message): Promise<void> {
     }
   }
 
+  // Account commands (everyone)
+  if (await handleAccountCommand(message, command, args)) {
+    return;
+  }
+
   // Unknown command or insufficient permissions
   if (command === 'help' || command === 'commands') {
     // Show help even if not moderator
@@ -1,5 +1,17 @@
 import { Message, EmbedBuilder } from 'discord.js';
+import fs from 'fs';
+import path from 'path';
 import { databaseService } from '../services/database';
+import { languageService } from '../services/languages';
+import { ocrService } from '../services/ocr';
+import { OCRQueueFullError, OCRTimeoutError } from '../services/ocrPool';
+import { profileClassifier } from '../services/profileClassifier';
+import { downloadImage, ImageDownloadError } from '../services/imageDownloader';
+import { accountLinkService } from '../services/accountLinks';
+import { sharedAccountService } from '../services/sharedAccounts';
+import { screenshotHashService } from '../services/screenshotHash';
+import { logger } from '../services/logger';
+import { ProfileField, ProfileSnapshot } from '../types';
 import { isAdmin, isModerator } from './index';
 
 /**
@@ -16,6 +28,12 @@ export async function handleModeratorCommand(
       return await handleCheckRank(message, args, extractUserIdFn);
     case 'listverified':
       return await handleListVerified(message, args);
+    case 'profilescore':
+      return await handleProfileScore(message);
+    case 'sharedaccounts':
+      return await handleSharedAccounts(message);
+    case 'duplicates':
+      return await handleDuplicates(message, args, extractUserIdFn);
     case 'help':
       return await handleHelp(message);
     default:
@@ -46,7 +64,10 @@ async function handleCheckRank(
     const verification = await databaseService.getVerification(userId);
     
     if (!verification) {
-      await message.reply('User has no verification record.');
+      const link = await accountLinkService.getLink(userId);
+      await message.reply(link
+        ? `User has no verification record, but is linked to Unique ID \`${link.unique_id}\`.`
+        : 'User has no verification record.');
       return true;
     }
 
@@ -58,12 +79,27 @@ async function handleCheckRank(
         { name: 'Rank', value: verification.rank_name, inline: true },
         { name: 'Level', value: verification.level_detected.toString(), inline: true },
         { name: 'Role ID', value: verification.role_id_assigned, inline: true },
+        { name: 'Screenshot Language', value: verification.language ? languageService.getLanguageName(verification.language) : 'Unknown', inline: true },
         { name: 'Verified At', value: verification.verified_at.toLocaleString(), inline: false },
         { name: 'Updated At', value: verification.updated_at.toLocaleString(), inline: false }
       )
       .setColor(0x00AE86)
       .setTimestamp();
 
+    const profile = verification.profile as unknown as ProfileSnapshot | null;
+    if (profile) {
+      embed.addFields({ name: 'In-game Profile', value: formatProfileSnapshot(profile), inline: false });
+    }
+
+    const link = await accountLinkService.getLink(userId);
+    embed.addFields({
+      name: 'Linked Unique ID',
+      value: link
+        ? `${link.unique_id} ${link.verified ? '(✅ matches screenshot)' : '(⚠️ not confirmed by a screenshot)'}`
+        : 'Not linked',
+      inline: false,
+    });
+
     await message.reply({ embeds: [embed] });
     return true;
   } catch (error) {
@@ -72,6 +108,24 @@ async function handleCheckRank(
   }
 }
 
+/**
+ * One line per profile field read from the screenshot, with the confidence it was read with
+ */
+function formatProfileSnapshot(profile: ProfileSnapshot): string {
+  const line = <T>(label: string, field: ProfileField<T> | null, format: (value: T) => string = String) =>
+    `${label}: ${field ? `**${format(field.value)}** (${Math.round(field.confidence * 100)}%)` : '_not read_'}`;
+
+  return [
+    line('Username', profile.username),
+    line('Unique ID', profile.unique_id),
+    line('Level', profile.level),
+    line('Rank', profile.rank),
+    line('VIP Level', profile.stats.vip_level),
+    line('Games Won', profile.stats.games_won, value => value.toLocaleString()),
+    line('Win Percentage', profile.stats.win_percentage, value => `${value}%`),
+  ].join('\n');
+}
+
 /**
  * !listverified [limit] - List recent verified users
  */
@@ -118,6 +172,171 @@ async function handleListVerified(message: Message, args: string[]): Promise<boo
   }
 }
 
+/**
+ * !profilescore (with an attached image) - Show how an image scores as a profile screenshot
+ */
+async function handleProfileScore(message: Message): Promise<boolean> {
+  const attachment = message.attachments.first();
+  if (!attachment || !(attachment.contentType || '').startsWith('image/')) {
+    await message.reply('Usage: `!profilescore` with a screenshot attached');
+    return true;
+  }
+
+  const fileExtension = path.extname(attachment.url.split('?')[0]).toLowerCase();
+  const tempFilePath = path.join(process.cwd(), 'tmp', `score_${Date.now()}_${Math.random().toString(36).substring(7)}${fileExtension}`);
+
+  try {
+    fs.mkdirSync(path.dirname(tempFilePath), { recursive: true });
+    await downloadImage(attachment.url, tempFilePath);
+
+    const ocrResult = await ocrService.extractText(tempFilePath, {
+      filename: attachment.name,
+      accept: (result) => profileClassifier.classify(result.text).is_profile,
+    });
+    const classification = profileClassifier.classify(ocrResult.text);
+
+    const matched = classification.matched
+      .sort((a, b) => b.weight - a.weight)
+      .map(match => `\`${match.weight > 0 ? '+' : ''}${match.weight}\` ${match.id} (${match.language}): "${match.text}"`);
+
+    const embed = new EmbedBuilder()
+      .setTitle('Profile Screenshot Score')
+      .addFields(
+        { name: 'Result', value: classification.is_profile ? '✅ Profile screenshot' : '❌ Not a profile screenshot', inline: true },
+        { name: 'Score', value: `${classification.score} (threshold ${classification.threshold})`, inline: true },
+        { name: 'OCR Variant', value: ocrResult.variant || 'original', inline: true },
+        { name: 'Matched Indicators', value: matched.length > 0 ? matched.join('\n').substring(0, 1024) : 'None', inline: false }
+      )
+      .setColor(classification.is_profile ? 0x00AE86 : 0xE74C3C)
+      .setTimestamp();
+
+    await message.reply({ embeds: [embed] });
+    return true;
+  } catch (error) {
+    if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+      await message.reply('⏳ The verification queue is very busy. Please try again in a few minutes.');
+      return true;
+    }
+    if (error instanceof ImageDownloadError) {
+      await message.reply(`❌ Couldn't download the image: ${error.message}`);
+      return true;
+    }
+    logger.error('Error in profilescore command', { error });
+    await message.reply('An error occurred while scoring the image.');
+    return true;
+  } finally {
+    if (fs.existsSync(tempFilePath)) {
+      fs.unlinkSync(tempFilePath);
+    }
+  }
+}
+
+/**
+ * !sharedaccounts - List 8 Ball Pool accounts claimed by more than one Discord user
+ */
+async function handleSharedAccounts(message: Message): Promise<boolean> {
+  try {
+    const groups = await sharedAccountService.listConflicts();
+
+    if (groups.length === 0) {
+      await message.reply('No 8 Ball Pool accounts are claimed by more than one Discord user.');
+      return true;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Shared Accounts (${groups.length})`)
+      .setDescription(`Policy for new screenshots: **${sharedAccountService.getPolicy()}**`)
+      .setColor(0xE67E22)
+      .setTimestamp();
+
+    const fields = groups.map(group => ({
+      name: group.key_type === 'unique_id' ? group.key : `In-game username: ${group.key}`,
+      value: group.users
+        .map(user => `<@${user.discord_id}>${user.username ? ` (${user.username})` : ''} - ${user.source === 'link' ? 'linked' : 'verified'}`)
+        .join('\n')
+        .substring(0, 1024),
+      inline: false,
+    }));
+
+    // Discord embeds have a limit of 25 fields
+    embed.addFields(fields.slice(0, 25));
+
+    if (fields.length > 25) {
+      embed.setFooter({ text: `Showing 25 of ${fields.length} results` });
+    }
+
+    await message.reply({ embeds: [embed] });
+    return true;
+  } catch (error) {
+    logger.error('Error in sharedaccounts command', { error });
+    await message.reply('An error occurred while looking for shared accounts.');
+    return true;
+  }
+}
+
+// How many of a user's latest screenshots !duplicates compares
+const DUPLICATE_CHECK_SCREENSHOTS = 5;
+
+/**
+ * !duplicates <@user> - Show earlier submissions by other users that match the user's latest screenshots
+ */
+async function handleDuplicates(
+  message: Message,
+  args: string[],
+  extractUserIdFn: (arg: string) => string | null
+): Promise<boolean> {
+  if (args.length < 1) {
+    await message.reply('Usage: `!duplicates <@user>`');
+    return true;
+  }
+
+  const userId = extractUserIdFn(args[0]);
+  if (!userId) {
+    await message.reply('Invalid user. Please mention a user or provide a user ID.');
+    return true;
+  }
+
+  try {
+    const screenshots = await databaseService.getScreenshotHashesForUser(userId, DUPLICATE_CHECK_SCREENSHOTS);
+
+    if (screenshots.length === 0) {
+      await message.reply('No screenshots from this user have been processed.');
+      return true;
+    }
+
+    const fields = [];
+    for (const screenshot of screenshots) {
+      const matches = await screenshotHashService.findMatches(screenshot.hash, userId);
+      if (matches.length === 0) continue;
+
+      fields.push({
+        name: `Screenshot #${screenshot.id} (${screenshot.created_at.toLocaleString()})`,
+        value: matches.slice(0, 5).map(match => screenshotHashService.describe(match)).join('\n').substring(0, 1024),
+        inline: false,
+      });
+    }
+
+    if (fields.length === 0) {
+      await message.reply(`None of the user's last ${screenshots.length} screenshot(s) match a submission from another user.`);
+      return true;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle('Duplicate Screenshots')
+      .setDescription(`Earlier submissions by other users that match <@${userId}>'s screenshots`)
+      .addFields(fields)
+      .setColor(0xE67E22)
+      .setTimestamp();
+
+    await message.reply({ embeds: [embed] });
+    return true;
+  } catch (error) {
+    logger.error('Error in duplicates command', { error });
+    await message.reply('An error occurred while looking for duplicate screenshots.');
+    return true;
+  }
+}
+
 /**
  * !help - Show available commands
  */
@@ -134,12 +353,19 @@ async function handleHelp(message: Message): Promise<boolean> {
     embed.addFields({
       name: 'Admin Commands',
       value: [
-        '`!recheck <@user>` - Re-process user\'s latest verification',
+        '`!recheck <@user> [apply]` - Re-run OCR on user\'s archived screenshot',
         '`!setrank <@user> <rank>` - Manually set a user\'s rank',
         '`!removerank <@user>` - Remove a user\'s rank and verification',
         '`!purgedb` - Purge all verification records (requires confirmation)',
         '`!logs` - Get the path to the log file',
         '`!instructions` - Resend verification channel instructions',
+        '`!reloadranks` - Reload the rank config from disk',
+        '`!maprole <@role> <rank>` - Use a role of this server for a rank',
+        '`!unmaprole <rank>` - Remove this server\'s role mapping for a rank',
+        '`!rolemap` - Show which role each rank uses in this server',
+        '`!addconfusion <ocr read> <correct> [cost]` - Teach the matcher a mistake OCR makes',
+        '`!downgradepolicy [highest|latest|review|default]` - Show or set what happens to lower ranks',
+        '`!expiring [days]` - Preview who would be reminded or expired',
       ].join('\n'),
       inline: false,
     });
@@ -151,14 +377,27 @@ async function handleHelp(message: Message): Promise<boolean> {
       value: [
         '`!checkrank <@user>` - Check a user\'s verification record',
         '`!listverified [limit]` - List recent verified users (default: 10, max: 50)',
+        '`!profilescore` - Show how an attached screenshot scores as a profile screenshot',
+        '`!sharedaccounts` - List 8 Ball Pool accounts claimed by more than one Discord user',
+        '`!duplicates <@user>` - Show earlier submissions by other users that match a user\'s screenshots',
         '`!help` - Show this help message',
       ].join('\n'),
       inline: false,
     });
   }
 
+  embed.addFields({
+    name: 'Account Commands',
+    value: [
+      '`/verify <image>` - Verify your rank from a Profile screenshot (same as posting it in the rank channel)',
+      '`/link-account <unique id>` - Link your 8 Ball Pool Unique ID to your Discord account',
+      '`/unlink-account` - Remove your linked Unique ID',
+    ].join('\n'),
+    inline: false,
+  });
+
   if (!isUserModerator) {
-    embed.setDescription('You do not have permission to use any commands. Contact an administrator for access.');
+    embed.setDescription('You do not have permission to use moderator commands. Contact an administrator for access.');
   }
 
   await message.reply({ embeds: [embed] });
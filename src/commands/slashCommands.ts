@@ -4,13 +4,17 @@ import {
   SlashCommandBuilder, 
   REST, 
   Routes,
-  PermissionFlagsBits 
+  PermissionFlagsBits,
+  Collection
 } from 'discord.js';
 import { handleAdminCommand } from './admin';
 import { handleModeratorCommand } from './moderator';
+import { handleAccountCommand } from './account';
 import { logger } from '../services/logger';
 import { isAdmin, isModerator, extractUserId } from './index';
 import { rankMatcher } from '../services/rankMatcher';
+import { guildRoleService } from '../services/guildRoles';
+import { isImageAttachment, verificationService } from '../services/verification';
 
 /**
  * Register slash commands with Discord
@@ -20,12 +24,17 @@ export async function registerSlashCommands(clientId: string, token: string, gui
     // Admin commands
     new SlashCommandBuilder()
       .setName('recheck')
-      .setDescription('Re-process a user\'s latest verification')
+      .setDescription('Re-process a user\'s archived verification screenshot')
       .addUserOption(option =>
         option.setName('user')
           .setDescription('The user to recheck')
           .setRequired(true)
       )
+      .addBooleanOption(option =>
+        option.setName('apply')
+          .setDescription('Apply the new result (default: only compare)')
+          .setRequired(false)
+      )
       .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
     
     new SlashCommandBuilder()
@@ -74,6 +83,92 @@ export async function registerSlashCommands(clientId: string, token: string, gui
       .setDescription('Resend verification channel instructions')
       .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
     
+    new SlashCommandBuilder()
+      .setName('reloadranks')
+      .setDescription('Reload the rank config from disk')
+      .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+    
+    new SlashCommandBuilder()
+      .setName('maprole')
+      .setDescription('Use a role of this server for a rank')
+      .addRoleOption(option =>
+        option.setName('role')
+          .setDescription('The role to assign for the rank')
+          .setRequired(true)
+      )
+      .addStringOption(option =>
+        option.setName('rank')
+          .setDescription('The rank name')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+    
+    new SlashCommandBuilder()
+      .setName('unmaprole')
+      .setDescription('Remove this server\'s role mapping for a rank')
+      .addStringOption(option =>
+        option.setName('rank')
+          .setDescription('The rank name')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+    
+    new SlashCommandBuilder()
+      .setName('rolemap')
+      .setDescription('Show which role each rank uses in this server')
+      .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+    
+    new SlashCommandBuilder()
+      .setName('addconfusion')
+      .setDescription('Teach the matcher a mistake OCR makes')
+      .addStringOption(option =>
+        option.setName('ocr_read')
+          .setDescription('What OCR read (e.g. 0verlord)')
+          .setRequired(true)
+      )
+      .addStringOption(option =>
+        option.setName('correct')
+          .setDescription('What the text should be (e.g. Overlord)')
+          .setRequired(true)
+      )
+      .addNumberOption(option =>
+        option.setName('cost')
+          .setDescription('Edit cost of the confusion, 0-1 (default 0.3)')
+          .setMinValue(0)
+          .setMaxValue(1)
+          .setRequired(false)
+      )
+      .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+    
+    new SlashCommandBuilder()
+      .setName('downgradepolicy')
+      .setDescription('Show or set what happens to screenshots showing a lower rank')
+      .addStringOption(option =>
+        option.setName('policy')
+          .setDescription('The new policy (leave empty to show the current one)')
+          .setRequired(false)
+          .addChoices(
+            { name: 'Keep highest rank', value: 'highest' },
+            { name: 'Always use latest screenshot', value: 'latest' },
+            { name: 'Moderator approval', value: 'review' },
+            { name: 'Default', value: 'default' }
+          )
+      )
+      .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+    
+    new SlashCommandBuilder()
+      .setName('expiring')
+      .setDescription('Preview which verifications would be reminded or expired')
+      .addIntegerOption(option =>
+        option.setName('days')
+          .setDescription('Verification age in days (default: VERIFICATION_MAX_AGE_DAYS)')
+          .setMinValue(1)
+          .setRequired(false)
+      )
+      .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+    
     // Moderator commands
     new SlashCommandBuilder()
       .setName('checkrank')
@@ -95,9 +190,57 @@ export async function registerSlashCommands(clientId: string, token: string, gui
       )
       .setDefaultMemberPermissions(PermissionFlagsBits.ManageRoles),
     
+    new SlashCommandBuilder()
+      .setName('profilescore')
+      .setDescription('Show how a screenshot scores as a profile screenshot')
+      .addAttachmentOption(option =>
+        option.setName('image')
+          .setDescription('The screenshot to score')
+          .setRequired(true)
+      )
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageRoles),
+    
+    new SlashCommandBuilder()
+      .setName('sharedaccounts')
+      .setDescription('List 8 Ball Pool accounts claimed by more than one Discord user')
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageRoles),
+    
+    new SlashCommandBuilder()
+      .setName('duplicates')
+      .setDescription('Show earlier submissions by other users that match a user\'s screenshots')
+      .addUserOption(option =>
+        option.setName('user')
+          .setDescription('The user to check')
+          .setRequired(true)
+      )
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageRoles),
+    
     new SlashCommandBuilder()
       .setName('help')
       .setDescription('Show available commands'),
+    
+    new SlashCommandBuilder()
+      .setName('link-account')
+      .setDescription('Link your 8 Ball Pool Unique ID to your Discord account')
+      .addStringOption(option =>
+        option.setName('unique_id')
+          .setDescription('Your Unique ID from the Profile screen (e.g. 123-456-789-0)')
+          .setRequired(true)
+      ),
+    
+    new SlashCommandBuilder()
+      .setName('unlink-account')
+      .setDescription('Remove your linked 8 Ball Pool Unique ID'),
+    
+    new SlashCommandBuilder()
+      .setName('verify')
+      .setDescription('Verify your rank from a screenshot of your 8 Ball Pool Profile screen')
+      .addAttachmentOption(option =>
+        option.setName('image')
+          .setDescription('Screenshot of your Profile screen')
+          .setRequired(true)
+      )
+      .setDMPermission(false),
   ].map(command => command.toJSON());
 
   const rest = new REST({ version: '10' }).setToken(token);
@@ -133,7 +276,11 @@ export async function handleAutocomplete(interaction: AutocompleteInteraction):
   const focusedOption = interaction.options.getFocused(true);
   
   if (focusedOption.name === 'rank') {
-    const allRanks = rankMatcher.getAllRanks();
+    const guild = interaction.guild;
+    // Use this server's role mappings so ranks without a role here are flagged
+    const allRanks = guild
+      ? (await guildRoleService.getRanksForGuild(guild.id)).map(rank => ({ ...rank, hasRole: guild.roles.cache.has(rank.role_id) }))
+      : rankMatcher.getAllRanks().map(rank => ({ ...rank, hasRole: true }));
     const query = focusedOption.value.toLowerCase();
     
     // Filter ranks that match the query
@@ -141,7 +288,7 @@ export async function handleAutocomplete(interaction: AutocompleteInteraction):
       .filter(rank => rank.rank_name.toLowerCase().includes(query))
       .slice(0, 25) // Discord limit is 25 choices
       .map(rank => ({
-        name: rank.rank_name,
+        name: rank.hasRole || interaction.commandName === 'maprole' ? rank.rank_name : `${rank.rank_name} (no role in this server)`,
         value: rank.rank_name,
       }));
     
@@ -189,7 +336,8 @@ export async function handleSlashCommand(interaction: ChatInputCommandInteractio
             },
           } as any;
           
-          await handleAdminCommand(mockMessage, 'recheck', [user.id], extractUserId);
+          const apply = interaction.options.getBoolean('apply') ?? false;
+          await handleAdminCommand(mockMessage, 'recheck', apply ? [user.id, 'apply'] : [user.id], extractUserId);
           if (!replied) {
             await interaction.editReply({ content: '✅ Recheck completed.' });
           }
@@ -324,6 +472,190 @@ export async function handleSlashCommand(interaction: ChatInputCommandInteractio
           }
           return;
         }
+
+        case 'reloadranks': {
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleAdminCommand(mockMessage, 'reloadranks', [], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Rank config reloaded.' });
+          }
+          return;
+        }
+
+        case 'maprole': {
+          const role = interaction.options.getRole('role', true);
+          const rank = interaction.options.getString('rank', true);
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleAdminCommand(mockMessage, 'maprole', [role.id, rank], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Role mapped.' });
+          }
+          return;
+        }
+
+        case 'unmaprole': {
+          const rank = interaction.options.getString('rank', true);
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleAdminCommand(mockMessage, 'unmaprole', [rank], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Role mapping removed.' });
+          }
+          return;
+        }
+
+        case 'rolemap': {
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleAdminCommand(mockMessage, 'rolemap', [], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Role mappings shown.' });
+          }
+          return;
+        }
+
+        case 'addconfusion': {
+          const observed = interaction.options.getString('ocr_read', true);
+          const expected = interaction.options.getString('correct', true);
+          const cost = interaction.options.getNumber('cost');
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          const args = cost !== null ? [observed, expected, String(cost)] : [observed, expected];
+          await handleAdminCommand(mockMessage, 'addconfusion', args, extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Confusion added.' });
+          }
+          return;
+        }
+
+        case 'downgradepolicy': {
+          const policy = interaction.options.getString('policy');
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleAdminCommand(mockMessage, 'downgradepolicy', policy ? [policy] : [], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Downgrade policy updated.' });
+          }
+          return;
+        }
+
+        case 'expiring': {
+          const days = interaction.options.getInteger('days');
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleAdminCommand(mockMessage, 'expiring', days ? [String(days)] : [], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Expiry preview shown.' });
+          }
+          return;
+        }
       }
     }
 
@@ -381,6 +713,84 @@ export async function handleSlashCommand(interaction: ChatInputCommandInteractio
           }
           return;
         }
+
+        case 'profilescore': {
+          const image = interaction.options.getAttachment('image', true);
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            attachments: new Collection([[image.id, image]]),
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleModeratorCommand(mockMessage, 'profilescore', [], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Image scored.' });
+          }
+          return;
+        }
+
+        case 'sharedaccounts': {
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleModeratorCommand(mockMessage, 'sharedaccounts', [], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Shared accounts listed.' });
+          }
+          return;
+        }
+
+        case 'duplicates': {
+          const user = interaction.options.getUser('user', true);
+          let replied = false;
+          const mockMessage = {
+            author: { id: userId, username: interaction.user.username },
+            guild: interaction.guild,
+            channel: interaction.channel,
+            reply: async (content: any) => {
+              replied = true;
+              if (typeof content === 'string') {
+                await interaction.editReply({ content });
+              } else if (content.embeds) {
+                await interaction.editReply({ embeds: content.embeds, files: content.files });
+              } else {
+                await interaction.editReply({ content: String(content) });
+              }
+            },
+          } as any;
+          
+          await handleModeratorCommand(mockMessage, 'duplicates', [user.id], extractUserId);
+          if (!replied) {
+            await interaction.editReply({ content: '✅ Duplicates checked.' });
+          }
+          return;
+        }
       }
     }
 
@@ -410,6 +820,58 @@ export async function handleSlashCommand(interaction: ChatInputCommandInteractio
       return;
     }
 
+    if (commandName === 'link-account' || commandName === 'unlink-account') {
+      const args = commandName === 'link-account' ? [interaction.options.getString('unique_id', true)] : [];
+      let replied = false;
+      const mockMessage = {
+        author: { id: userId, username: interaction.user.username },
+        guild: interaction.guild,
+        channel: interaction.channel,
+        reply: async (content: any) => {
+          replied = true;
+          if (typeof content === 'string') {
+            await interaction.editReply({ content });
+          } else if (content.embeds) {
+            await interaction.editReply({ embeds: content.embeds, files: content.files });
+          } else {
+            await interaction.editReply({ content: String(content) });
+          }
+        },
+      } as any;
+      
+      await handleAccountCommand(mockMessage, commandName, args);
+      if (!replied) {
+        await interaction.editReply({ content: '✅ Done.' });
+      }
+      return;
+    }
+
+    if (commandName === 'verify') {
+      if (!interaction.guild) {
+        await interaction.editReply({ content: '❌ This command can only be used in a server.' });
+        return;
+      }
+
+      const attachment = interaction.options.getAttachment('image', true);
+      if (!isImageAttachment(attachment)) {
+        await interaction.editReply({ content: '❌ Please attach a PNG, JPEG or WebP screenshot of your 8 Ball Pool **Profile** screen.' });
+        return;
+      }
+
+      const member = await interaction.guild.members.fetch(userId);
+      const outcome = await verificationService.verify({
+        member,
+        images: [attachment],
+        channel_id: interaction.channelId,
+        exempt_from_limits: isModerator(userId),
+      });
+
+      await interaction.editReply({
+        content: outcome.title ? `**${outcome.title}**\n${outcome.message}` : outcome.message,
+      });
+      return;
+    }
+
     // Unknown command or insufficient permissions
     await interaction.editReply({ 
       content: '❌ You do not have permission to use this command or the command does not exist.'
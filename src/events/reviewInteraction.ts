@@ -0,0 +1,85 @@
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import { reviewQueue, REVIEW_ID_PREFIX } from '../services/reviewQueue';
+import { databaseService } from '../services/database';
+import { logger } from '../services/logger';
+import { isModerator } from '../commands';
+
+/**
+ * Whether an interaction belongs to a review message (button or Set rank modal)
+ */
+export function isReviewInteraction(customId: string): boolean {
+  return customId.startsWith(`${REVIEW_ID_PREFIX}:`);
+}
+
+/**
+ * Handle the Approve / Reject / Set rank buttons on a review message and the Set rank modal
+ */
+export async function handleReviewInteraction(interaction: ButtonInteraction | ModalSubmitInteraction): Promise<void> {
+  const [, action, id] = interaction.customId.split(':');
+  const reviewId = parseInt(id, 10);
+
+  if (!isModerator(interaction.user.id)) {
+    await interaction.reply({ content: '❌ Only moderators can review verifications.', ephemeral: true });
+    return;
+  }
+
+  if (isNaN(reviewId)) {
+    await interaction.reply({ content: '❌ Invalid review.', ephemeral: true });
+    return;
+  }
+
+  // Set rank asks for the rank first
+  if (action === 'setrank' && interaction.isButton()) {
+    const review = await databaseService.getPendingReview(reviewId);
+    const input = new TextInputBuilder()
+      .setCustomId('rank')
+      .setLabel('Rank name')
+      .setStyle(TextInputStyle.Short)
+      .setRequired(true)
+      .setValue(review?.rank_name ?? '');
+
+    const modal = new ModalBuilder()
+      .setCustomId(`${REVIEW_ID_PREFIX}:setrank:${reviewId}`)
+      .setTitle(`Set rank for review #${reviewId}`)
+      .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+
+    await interaction.showModal(modal);
+    return;
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+
+  let decision;
+  switch (action) {
+    case 'approve':
+      decision = await reviewQueue.approve(reviewId, interaction.user.id);
+      break;
+    case 'reject':
+      decision = await reviewQueue.reject(reviewId, interaction.user.id);
+      break;
+    case 'setrank':
+      if (!interaction.isModalSubmit()) return;
+      decision = await reviewQueue.approve(reviewId, interaction.user.id, interaction.fields.getTextInputValue('rank').trim());
+      break;
+    default:
+      logger.warn('Unknown review action', { custom_id: interaction.customId });
+      await interaction.editReply({ content: '❌ Unknown review action.' });
+      return;
+  }
+
+  logger.info('Review action handled', {
+    review_id: reviewId,
+    action,
+    moderator_id: interaction.user.id,
+    success: decision.success,
+  });
+
+  await interaction.editReply({ content: decision.success ? decision.message : `❌ ${decision.message}` });
+}
@@ -0,0 +1,95 @@
+import { LinkedAccount } from '@prisma/client';
+import { AccountLinkResult, ProfileSnapshot } from '../types';
+import { databaseService } from './database';
+import { logger } from './logger';
+
+// Unique IDs are 10 digits, shown in game as 123-456-789-0 (separators optional when typed)
+const UNIQUE_ID_INPUT_PATTERN = /^(\d{3})[\s\-.]?(\d{3})[\s\-.]?(\d{3})[\s\-.]?(\d)$/;
+
+/**
+ * Links Discord users to their 8 Ball Pool Unique ID, cross-checked against the ID read from
+ * their verification screenshot
+ */
+class AccountLinkService {
+  /**
+   * Normalize a typed Unique ID to 123-456-789-0, or return null if it isn't one
+   */
+  normalizeUniqueId(input: string): string | null {
+    const match = input.trim().match(UNIQUE_ID_INPUT_PATTERN);
+    return match ? `${match[1]}-${match[2]}-${match[3]}-${match[4]}` : null;
+  }
+
+  /**
+   * Unique ID read from the user's latest verification screenshot, if any
+   */
+  private async getScreenshotUniqueId(discordId: string): Promise<string | null> {
+    const verification = await databaseService.getVerification(discordId);
+    const profile = verification?.profile as unknown as ProfileSnapshot | null | undefined;
+    return profile?.unique_id?.value ?? null;
+  }
+
+  /**
+   * Link a user to a Unique ID. Refused when the ID differs from the one on their verification
+   * screenshot, or when another user's screenshot or confirmed link already shows it; linked but
+   * unverified when the screenshot had no readable ID.
+   */
+  async link(discordId: string, input: string): Promise<AccountLinkResult> {
+    const uniqueId = this.normalizeUniqueId(input);
+    if (!uniqueId) {
+      return { status: 'invalid_format', unique_id: null, verified: false, screenshot_unique_id: null };
+    }
+
+    const screenshotUniqueId = await this.getScreenshotUniqueId(discordId);
+    if (screenshotUniqueId && screenshotUniqueId !== uniqueId) {
+      logger.info('Account link refused, Unique ID differs from screenshot', {
+        discord_id: discordId,
+        unique_id: uniqueId,
+        screenshot_unique_id: screenshotUniqueId,
+      });
+      return { status: 'mismatch', unique_id: uniqueId, verified: false, screenshot_unique_id: screenshotUniqueId };
+    }
+
+    const verified = screenshotUniqueId === uniqueId;
+    if (!verified) {
+      // Only a screenshot proves ownership, so an unproven link can't take an ID someone else has shown
+      const verifications = await databaseService.getVerificationsByUniqueId(uniqueId, discordId);
+      const links = await databaseService.getVerifiedLinkedAccountsByUniqueId(uniqueId, discordId);
+      if (verifications.length > 0 || links.length > 0) {
+        logger.info('Account link refused, Unique ID claimed by another user', { discord_id: discordId, unique_id: uniqueId });
+        return { status: 'claimed', unique_id: uniqueId, verified: false, screenshot_unique_id: screenshotUniqueId };
+      }
+    }
+
+    await databaseService.upsertLinkedAccount(discordId, uniqueId, verified);
+    return { status: 'linked', unique_id: uniqueId, verified, screenshot_unique_id: screenshotUniqueId };
+  }
+
+  /**
+   * Mark a user's link as verified once a verification screenshot shows the same Unique ID
+   */
+  async confirmFromProfile(discordId: string, profile: ProfileSnapshot | null | undefined): Promise<void> {
+    const screenshotUniqueId = profile?.unique_id?.value;
+    if (!screenshotUniqueId) return;
+
+    const link = await databaseService.getLinkedAccount(discordId);
+    if (link && !link.verified && link.unique_id === screenshotUniqueId) {
+      await databaseService.upsertLinkedAccount(discordId, link.unique_id, true);
+    }
+  }
+
+  /**
+   * Remove a user's link. Returns false if the user had none.
+   */
+  async unlink(discordId: string): Promise<boolean> {
+    return databaseService.deleteLinkedAccount(discordId);
+  }
+
+  /**
+   * A user's linked account, if any
+   */
+  async getLink(discordId: string): Promise<LinkedAccount | null> {
+    return databaseService.getLinkedAccount(discordId);
+  }
+}
+
+export const accountLinkService = new AccountLinkService();
@@ -1,5 +1,5 @@
-import { PrismaClient, Verification } from '@prisma/client';
-import { VerificationData, LogEntry } from '../types';
+import { Prisma, PrismaClient, Verification, GuildRankRole, PendingReview, LinkedAccount, ScreenshotHash, GuildSettings, ScreenshotEvidence, VerificationExpiry } from '@prisma/client';
+import { VerificationData, LogEntry, PendingEvidence, ReviewStatus, ReviewSubmission, ScreenshotHashStatus } from '../types';
 import { logger } from './logger';
 
 class DatabaseService {
@@ -27,6 +27,16 @@ class DatabaseService {
    * Upsert verification record (create or update)
    */
   async upsertVerification(data: VerificationData): Promise<Verification> {
+    // Leave the stored snapshot alone when none is given (e.g. manual rank changes), clear it when null
+    const profile = data.profile === undefined
+      ? undefined
+      : data.profile === null ? Prisma.DbNull : (data.profile as unknown as Prisma.InputJsonObject);
+
+    // The in-game identity is kept in its own columns so shared accounts can be looked up
+    const identity = data.profile === undefined
+      ? {}
+      : { unique_id: data.profile?.unique_id?.value ?? null, game_username: data.profile?.username?.value ?? null };
+
     try {
       const verification = await this.prisma.verification.upsert({
         where: {
@@ -37,6 +47,9 @@ class DatabaseService {
           rank_name: data.rank_name,
           level_detected: data.level_detected,
           role_id_assigned: data.role_id_assigned,
+          language: data.language,
+          profile,
+          ...identity,
           updated_at: new Date(),
         },
         create: {
@@ -45,6 +58,9 @@ class DatabaseService {
           rank_name: data.rank_name,
           level_detected: data.level_detected,
           role_id_assigned: data.role_id_assigned,
+          language: data.language,
+          profile,
+          ...identity,
         },
       });
 
@@ -56,6 +72,21 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Mark a verification as renewed without changing its rank
+   */
+  async touchVerification(discordId: string): Promise<void> {
+    try {
+      await this.prisma.verification.update({
+        where: { discord_id: discordId },
+        data: { updated_at: new Date() },
+      });
+    } catch (error) {
+      logger.error('Failed to renew verification', { error, discordId });
+      throw error;
+    }
+  }
+
   /**
    * Get verification record by Discord ID
    */
@@ -125,6 +156,551 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Get the rank role mappings of a guild
+   */
+  async getGuildRankRoles(guildId: string): Promise<GuildRankRole[]> {
+    try {
+      return await this.prisma.guildRankRole.findMany({
+        where: {
+          guild_id: guildId,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to get guild rank roles', { error, guildId });
+      throw error;
+    }
+  }
+
+  /**
+   * Map a rank to a role in a guild (create or update)
+   */
+  async setGuildRankRole(guildId: string, rankName: string, roleId: string): Promise<GuildRankRole> {
+    try {
+      const mapping = await this.prisma.guildRankRole.upsert({
+        where: {
+          guild_id_rank_name: { guild_id: guildId, rank_name: rankName },
+        },
+        update: {
+          role_id: roleId,
+        },
+        create: {
+          guild_id: guildId,
+          rank_name: rankName,
+          role_id: roleId,
+        },
+      });
+
+      logger.info('Guild rank role set', { guild_id: guildId, rank_name: rankName, role_id: roleId });
+      return mapping;
+    } catch (error) {
+      logger.error('Failed to set guild rank role', { error, guildId, rankName, roleId });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a rank's role mapping in a guild. Returns false if there was none.
+   */
+  async deleteGuildRankRole(guildId: string, rankName: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.guildRankRole.deleteMany({
+        where: {
+          guild_id: guildId,
+          rank_name: rankName,
+        },
+      });
+
+      logger.info('Guild rank role removed', { guild_id: guildId, rank_name: rankName, count: result.count });
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Failed to delete guild rank role', { error, guildId, rankName });
+      throw error;
+    }
+  }
+
+  /**
+   * Settings stored for a guild (null if it uses the defaults)
+   */
+  async getGuildSettings(guildId: string): Promise<GuildSettings | null> {
+    try {
+      return await this.prisma.guildSettings.findUnique({
+        where: { guild_id: guildId },
+      });
+    } catch (error) {
+      logger.error('Failed to get guild settings', { error, guildId });
+      throw error;
+    }
+  }
+
+  /**
+   * Set a guild's downgrade policy (null to use the default)
+   */
+  async setGuildDowngradePolicy(guildId: string, policy: string | null): Promise<GuildSettings> {
+    try {
+      return await this.prisma.guildSettings.upsert({
+        where: { guild_id: guildId },
+        update: { downgrade_policy: policy },
+        create: { guild_id: guildId, downgrade_policy: policy },
+      });
+    } catch (error) {
+      logger.error('Failed to set guild downgrade policy', { error, guildId, policy });
+      throw error;
+    }
+  }
+
+  /**
+   * Verifications of other users with the same in-game Unique ID
+   */
+  async getVerificationsByUniqueId(uniqueId: string, excludeDiscordId?: string): Promise<Verification[]> {
+    try {
+      return await this.prisma.verification.findMany({
+        where: { unique_id: uniqueId, discord_id: excludeDiscordId ? { not: excludeDiscordId } : undefined },
+      });
+    } catch (error) {
+      logger.error('Failed to get verifications by unique ID', { error, uniqueId });
+      throw error;
+    }
+  }
+
+  /**
+   * Verifications of other users with the same in-game username (case-insensitive)
+   */
+  async getVerificationsByGameUsername(gameUsername: string, excludeDiscordId?: string): Promise<Verification[]> {
+    try {
+      return await this.prisma.verification.findMany({
+        where: {
+          game_username: { equals: gameUsername, mode: 'insensitive' },
+          discord_id: excludeDiscordId ? { not: excludeDiscordId } : undefined,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to get verifications by game username', { error, gameUsername });
+      throw error;
+    }
+  }
+
+  /**
+   * All verifications with a Unique ID read from the screenshot
+   */
+  async getVerificationsWithUniqueId(): Promise<Verification[]> {
+    try {
+      return await this.prisma.verification.findMany({
+        where: { unique_id: { not: null } },
+      });
+    } catch (error) {
+      logger.error('Failed to get verifications with unique ID', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * All verifications with an in-game username read from the screenshot
+   */
+  async getVerificationsWithGameUsername(): Promise<Verification[]> {
+    try {
+      return await this.prisma.verification.findMany({
+        where: { game_username: { not: null } },
+      });
+    } catch (error) {
+      logger.error('Failed to get verifications with game username', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Links to a Unique ID confirmed by a verification screenshot (optionally excluding one user)
+   */
+  async getVerifiedLinkedAccountsByUniqueId(uniqueId: string, excludeDiscordId?: string): Promise<LinkedAccount[]> {
+    try {
+      return await this.prisma.linkedAccount.findMany({
+        where: { unique_id: uniqueId, verified: true, discord_id: excludeDiscordId ? { not: excludeDiscordId } : undefined },
+      });
+    } catch (error) {
+      logger.error('Failed to get linked accounts by unique ID', { error, uniqueId });
+      throw error;
+    }
+  }
+
+  /**
+   * All links confirmed by a verification screenshot
+   */
+  async getVerifiedLinkedAccounts(): Promise<LinkedAccount[]> {
+    try {
+      return await this.prisma.linkedAccount.findMany({
+        where: { verified: true },
+      });
+    } catch (error) {
+      logger.error('Failed to get linked accounts', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's linked 8 Ball Pool account
+   */
+  async getLinkedAccount(discordId: string): Promise<LinkedAccount | null> {
+    try {
+      return await this.prisma.linkedAccount.findUnique({
+        where: { discord_id: discordId },
+      });
+    } catch (error) {
+      logger.error('Failed to get linked account', { error, discordId });
+      throw error;
+    }
+  }
+
+  /**
+   * Link a user to an 8 Ball Pool Unique ID (replaces an existing link)
+   */
+  async upsertLinkedAccount(discordId: string, uniqueId: string, verified: boolean): Promise<LinkedAccount> {
+    try {
+      const account = await this.prisma.linkedAccount.upsert({
+        where: { discord_id: discordId },
+        update: { unique_id: uniqueId, verified },
+        create: { discord_id: discordId, unique_id: uniqueId, verified },
+      });
+
+      logger.info('Linked account saved', { discord_id: discordId, unique_id: uniqueId, verified });
+      return account;
+    } catch (error) {
+      logger.error('Failed to save linked account', { error, discordId });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user's linked account. Returns false if the user had no link.
+   */
+  async deleteLinkedAccount(discordId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.linkedAccount.deleteMany({
+        where: { discord_id: discordId },
+      });
+
+      logger.info('Linked account removed', { discord_id: discordId, count: result.count });
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Failed to delete linked account', { error, discordId });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a match waiting for moderator review
+   */
+  async createPendingReview(submission: ReviewSubmission): Promise<PendingReview> {
+    try {
+      const review = await this.prisma.pendingReview.create({
+        data: {
+          discord_id: submission.discord_id,
+          username: submission.username,
+          guild_id: submission.guild_id,
+          rank_name: submission.rank.rank_name,
+          level_detected: submission.level,
+          confidence: submission.rank.confidence,
+          reasons: submission.reasons,
+          language: submission.language,
+          profile: submission.profile ? (submission.profile as unknown as Prisma.InputJsonObject) : undefined,
+        },
+      });
+
+      logger.info('Pending review created', { id: review.id, discord_id: submission.discord_id, reasons: submission.reasons });
+      return review;
+    } catch (error) {
+      logger.error('Failed to create pending review', { error, discord_id: submission.discord_id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a review by ID
+   */
+  async getPendingReview(id: number): Promise<PendingReview | null> {
+    try {
+      return await this.prisma.pendingReview.findUnique({
+        where: { id },
+      });
+    } catch (error) {
+      logger.error('Failed to get pending review', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Remember the review channel message for a review
+   */
+  async setReviewMessageId(id: number, messageId: string): Promise<void> {
+    try {
+      await this.prisma.pendingReview.update({
+        where: { id },
+        data: { review_message_id: messageId },
+      });
+    } catch (error) {
+      logger.error('Failed to set review message', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Remember the screenshot held for a review
+   */
+  async setReviewEvidence(id: number, evidence: PendingEvidence): Promise<void> {
+    try {
+      await this.prisma.pendingReview.update({
+        where: { id },
+        data: { evidence: evidence as unknown as Prisma.InputJsonObject },
+      });
+    } catch (error) {
+      logger.error('Failed to set review evidence', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a review as resolved. Only pending reviews can be resolved, so two moderators acting at
+   * once can't both apply it; returns false if the review was no longer pending.
+   */
+  async resolvePendingReview(id: number, status: ReviewStatus, reviewerId: string | null, finalRankName?: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.pendingReview.updateMany({
+        where: { id, status: 'pending' },
+        data: {
+          status,
+          reviewer_id: reviewerId,
+          final_rank_name: finalRankName,
+          resolved_at: new Date(),
+        },
+      });
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Failed to resolve pending review', { error, id, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Put a review back in the queue (e.g. when applying it failed)
+   */
+  async reopenPendingReview(id: number): Promise<void> {
+    try {
+      await this.prisma.pendingReview.update({
+        where: { id },
+        data: { status: 'pending', reviewer_id: null, final_rank_name: null, resolved_at: null },
+      });
+    } catch (error) {
+      logger.error('Failed to reopen pending review', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a review (e.g. when it couldn't be posted to the review channel)
+   */
+  async deletePendingReview(id: number): Promise<void> {
+    try {
+      await this.prisma.pendingReview.delete({
+        where: { id },
+      });
+    } catch (error) {
+      logger.error('Failed to delete pending review', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Pending reviews for a user in a guild
+   */
+  async getPendingReviewsForUser(discordId: string, guildId: string): Promise<PendingReview[]> {
+    try {
+      return await this.prisma.pendingReview.findMany({
+        where: { discord_id: discordId, guild_id: guildId, status: 'pending' },
+        orderBy: { created_at: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to get pending reviews for user', { error, discordId, guildId });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the perceptual hash of a processed screenshot
+   */
+  async createScreenshotHash(data: Prisma.ScreenshotHashUncheckedCreateInput): Promise<ScreenshotHash> {
+    try {
+      return await this.prisma.screenshotHash.create({ data });
+    } catch (error) {
+      logger.error('Failed to store screenshot hash', { error, discord_id: data.discord_id });
+      throw error;
+    }
+  }
+
+  /**
+   * Set the status of the screenshot hashes held for a review
+   */
+  async setScreenshotHashStatusForReview(reviewId: number, status: ScreenshotHashStatus): Promise<void> {
+    try {
+      await this.prisma.screenshotHash.updateMany({
+        where: { review_id: reviewId },
+        data: { status },
+      });
+    } catch (error) {
+      logger.error('Failed to update screenshot hash status', { error, reviewId, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Screenshot hashes submitted by everyone except one user that share at least one band with a
+   * hash, leaving out rejected screenshots
+   */
+  async getScreenshotHashesSharingBands(bands: string[], discordId: string): Promise<ScreenshotHash[]> {
+    try {
+      return await this.prisma.screenshotHash.findMany({
+        where: { bands: { hasSome: bands }, discord_id: { not: discordId }, status: { not: 'rejected' } },
+        orderBy: { created_at: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to get screenshot hashes', { error, discordId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete screenshot hashes stored before a date
+   */
+  async deleteScreenshotHashesBefore(date: Date): Promise<number> {
+    try {
+      const result = await this.prisma.screenshotHash.deleteMany({
+        where: { created_at: { lt: date } },
+      });
+      return result.count;
+    } catch (error) {
+      logger.error('Failed to delete screenshot hashes', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * A user's most recent screenshot hashes
+   */
+  async getScreenshotHashesForUser(discordId: string, limit: number): Promise<ScreenshotHash[]> {
+    try {
+      return await this.prisma.screenshotHash.findMany({
+        where: { discord_id: discordId },
+        orderBy: { created_at: 'desc' },
+        take: limit,
+      });
+    } catch (error) {
+      logger.error('Failed to get screenshot hashes for user', { error, discordId });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the archived screenshot of a user's latest verification, replacing the previous one
+   */
+  async upsertScreenshotEvidence(data: Omit<Prisma.ScreenshotEvidenceUncheckedCreateInput, 'created_at'>): Promise<ScreenshotEvidence> {
+    try {
+      return await this.prisma.screenshotEvidence.upsert({
+        where: { discord_id: data.discord_id },
+        update: { ...data, created_at: new Date() },
+        create: data,
+      });
+    } catch (error) {
+      logger.error('Failed to store screenshot evidence', { error, discord_id: data.discord_id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the archived screenshot of a user's latest verification
+   */
+  async getScreenshotEvidence(discordId: string): Promise<ScreenshotEvidence | null> {
+    try {
+      return await this.prisma.screenshotEvidence.findUnique({
+        where: { discord_id: discordId },
+      });
+    } catch (error) {
+      logger.error('Failed to get screenshot evidence', { error, discordId });
+      throw error;
+    }
+  }
+
+  /**
+   * Archived screenshots stored before a date
+   */
+  async getScreenshotEvidenceBefore(date: Date): Promise<ScreenshotEvidence[]> {
+    try {
+      return await this.prisma.screenshotEvidence.findMany({
+        where: { created_at: { lt: date } },
+      });
+    } catch (error) {
+      logger.error('Failed to get expired screenshot evidence', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the archived screenshot records of some users, unless they were replaced after a date
+   */
+  async deleteScreenshotEvidence(discordIds: string[], before: Date): Promise<number> {
+    try {
+      const result = await this.prisma.screenshotEvidence.deleteMany({
+        where: { discord_id: { in: discordIds }, created_at: { lt: before } },
+      });
+      return result.count;
+    } catch (error) {
+      logger.error('Failed to delete screenshot evidence', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Verifications last updated before a date, oldest first
+   */
+  async getVerificationsUpdatedBefore(date: Date): Promise<Verification[]> {
+    try {
+      return await this.prisma.verification.findMany({
+        where: { updated_at: { lt: date } },
+        orderBy: { updated_at: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to get verifications updated before date', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reminder and expiry state of some users' verifications
+   */
+  async getVerificationExpiries(discordIds: string[]): Promise<VerificationExpiry[]> {
+    try {
+      return await this.prisma.verificationExpiry.findMany({
+        where: { discord_id: { in: discordIds } },
+      });
+    } catch (error) {
+      logger.error('Failed to get verification expiries', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record when a user was reminded to re-verify and, once it happened, when their verification expired
+   */
+  async upsertVerificationExpiry(discordId: string, remindedAt: Date, expiredAt: Date | null): Promise<VerificationExpiry> {
+    try {
+      return await this.prisma.verificationExpiry.upsert({
+        where: { discord_id: discordId },
+        update: { reminded_at: remindedAt, expired_at: expiredAt },
+        create: { discord_id: discordId, reminded_at: remindedAt, expired_at: expiredAt },
+      });
+    } catch (error) {
+      logger.error('Failed to store verification expiry', { error, discord_id: discordId });
+      throw error;
+    }
+  }
+
   /**
    * Get Prisma client (for advanced queries if needed)
    */
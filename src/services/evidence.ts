@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import { PendingReview, ScreenshotEvidence } from '@prisma/client';
+import { EvidenceSource, ImageFormat, PendingEvidence, ScreenshotReading } from '../types';
+import { databaseService } from './database';
+import { logger } from './logger';
+
+const DEFAULT_RETENTION_DAYS = 90;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Archive of the screenshot behind each user's latest verification, with the OCR text it was
+ * matched on, so `recheck` can run the current OCR and matcher against it again. Images are kept
+ * in EVIDENCE_DIR for EVIDENCE_RETENTION_DAYS (0 turns the archive off). Screenshots sent for
+ * review are held in EVIDENCE_DIR/pending and only replace the archive when the review is approved.
+ */
+class EvidenceStoreService {
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  private getDir(): string {
+    return process.env.EVIDENCE_DIR || path.join(process.cwd(), 'evidence');
+  }
+
+  private getPendingDir(): string {
+    return path.join(this.getDir(), 'pending');
+  }
+
+  /**
+   * Days a screenshot is kept (EVIDENCE_RETENTION_DAYS)
+   */
+  getRetentionDays(): number {
+    const days = parseInt(process.env.EVIDENCE_RETENTION_DAYS || '', 10);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Whether screenshots are archived at all
+   */
+  isEnabled(): boolean {
+    return this.getRetentionDays() > 0;
+  }
+
+  /**
+   * Path of an archived screenshot
+   */
+  getPath(evidence: ScreenshotEvidence): string {
+    return path.join(this.getDir(), evidence.file_name);
+  }
+
+  /**
+   * What to archive for a screenshot that was read with the OCR
+   */
+  toSource(filePath: string, format: ImageFormat, reading: ScreenshotReading): EvidenceSource {
+    return {
+      file_path: filePath,
+      format,
+      ocr_text: reading.ocr.text,
+      ocr_confidence: reading.ocr.confidence,
+      ocr_variant: reading.ocr.variant,
+    };
+  }
+
+  /**
+   * Archive the screenshot a verification was based on, replacing the user's previous one.
+   * Failures are logged, never thrown, so they can't hold up a verification.
+   */
+  async save(
+    discordId: string,
+    username: string,
+    source: EvidenceSource,
+    rankName: string,
+    level: number,
+    confidence: number
+  ): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const fileName = `${discordId}_${Date.now()}.${source.format}`;
+    const filePath = path.join(this.getDir(), fileName);
+    try {
+      const previous = await databaseService.getScreenshotEvidence(discordId);
+
+      await fs.promises.mkdir(this.getDir(), { recursive: true });
+      await fs.promises.copyFile(source.file_path, filePath);
+      await databaseService.upsertScreenshotEvidence({
+        discord_id: discordId,
+        username,
+        file_name: fileName,
+        format: source.format,
+        ocr_text: source.ocr_text,
+        ocr_confidence: source.ocr_confidence,
+        ocr_variant: source.ocr_variant,
+        rank_name: rankName,
+        level_detected: level,
+        confidence,
+      });
+
+      if (previous && previous.file_name !== fileName) {
+        await fs.promises.unlink(this.getPath(previous)).catch(() => {});
+      }
+      logger.debug('Screenshot archived', { discord_id: discordId, file: fileName });
+    } catch (error) {
+      await fs.promises.unlink(filePath).catch(() => {});
+      logger.warn('Failed to archive screenshot', {
+        error: error instanceof Error ? error.message : String(error),
+        discord_id: discordId,
+      });
+    }
+  }
+
+  /**
+   * Hold the screenshot of a match sent for review in EVIDENCE_DIR/pending, so the archive behind
+   * the current verification stays as it is until a moderator approves the review
+   */
+  async savePending(reviewId: number, source: EvidenceSource): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const fileName = `review_${reviewId}.${source.format}`;
+    const filePath = path.join(this.getPendingDir(), fileName);
+    try {
+      await fs.promises.mkdir(this.getPendingDir(), { recursive: true });
+      await fs.promises.copyFile(source.file_path, filePath);
+      await databaseService.setReviewEvidence(reviewId, {
+        file_name: fileName,
+        format: source.format,
+        ocr_text: source.ocr_text,
+        ocr_confidence: source.ocr_confidence,
+        ocr_variant: source.ocr_variant,
+      });
+    } catch (error) {
+      await fs.promises.unlink(filePath).catch(() => {});
+      logger.warn('Failed to hold screenshot for review', {
+        error: error instanceof Error ? error.message : String(error),
+        review_id: reviewId,
+      });
+    }
+  }
+
+  /**
+   * The screenshot held for a review, or null if there is none or it has been purged
+   */
+  getPending(review: PendingReview): EvidenceSource | null {
+    const evidence = review.evidence as unknown as PendingEvidence | null;
+    if (!evidence) return null;
+
+    const filePath = path.join(this.getPendingDir(), evidence.file_name);
+    if (!fs.existsSync(filePath)) return null;
+
+    return {
+      file_path: filePath,
+      format: evidence.format,
+      ocr_text: evidence.ocr_text,
+      ocr_confidence: evidence.ocr_confidence,
+      ocr_variant: evidence.ocr_variant,
+    };
+  }
+
+  /**
+   * Delete the screenshot held for a review once it has been resolved
+   */
+  async discardPending(review: PendingReview): Promise<void> {
+    const evidence = review.evidence as unknown as PendingEvidence | null;
+    if (!evidence) return;
+    await fs.promises.unlink(path.join(this.getPendingDir(), evidence.file_name)).catch(() => {});
+  }
+
+  /**
+   * A user's archived screenshot, or null if there is none, it has expired or the file is gone
+   */
+  async get(discordId: string): Promise<ScreenshotEvidence | null> {
+    const evidence = await databaseService.getScreenshotEvidence(discordId);
+    if (!evidence || evidence.created_at.getTime() < Date.now() - this.getRetentionDays() * DAY_MS) {
+      return null;
+    }
+    if (!fs.existsSync(this.getPath(evidence))) {
+      logger.warn('Archived screenshot file is missing', { discord_id: discordId, file: evidence.file_name });
+      return null;
+    }
+    return evidence;
+  }
+
+  /**
+   * Delete screenshots older than the retention period
+   */
+  async purgeExpired(): Promise<number> {
+    const retentionDays = this.getRetentionDays();
+    // With the archive turned off, whatever is left is removed as well
+    const cutoff = new Date(retentionDays > 0 ? Date.now() - retentionDays * DAY_MS : Date.now());
+
+    await this.purgePending(cutoff);
+
+    const expired = await databaseService.getScreenshotEvidenceBefore(cutoff);
+    if (expired.length === 0) return 0;
+
+    for (const evidence of expired) {
+      await fs.promises.unlink(this.getPath(evidence)).catch(() => {});
+    }
+    const count = await databaseService.deleteScreenshotEvidence(expired.map(evidence => evidence.discord_id), cutoff);
+
+    logger.info('Expired screenshots purged', { count, retention_days: retentionDays });
+    return count;
+  }
+
+  /**
+   * Delete screenshots held for reviews that were left unresolved past the retention period
+   */
+  private async purgePending(cutoff: Date): Promise<void> {
+    const fileNames = await fs.promises.readdir(this.getPendingDir()).catch(() => [] as string[]);
+    for (const fileName of fileNames) {
+      const filePath = path.join(this.getPendingDir(), fileName);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      if (stats && stats.mtime < cutoff) {
+        await fs.promises.unlink(filePath).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Purge expired screenshots now and then every hour
+   */
+  start(): void {
+    if (this.purgeTimer) return;
+
+    const purge = () => this.purgeExpired().catch(error => {
+      logger.error('Failed to purge expired screenshots', { error });
+    });
+    void purge();
+    this.purgeTimer = setInterval(purge, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Stop the hourly purge
+   */
+  stop(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
+
+export const evidenceStore = new EvidenceStoreService();
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { OcrEngine, OcrFixture, OcrRecognizeOptions, OCRResult, OCRPoolStats } from '../types';
+import { logger } from './logger';
+
+/**
+ * Deterministic OCR engine that returns canned results from JSON fixtures.
+ * Fixtures are matched by the SHA-256 of the original image, then by filename.
+ */
+export class FixtureEngine implements OcrEngine {
+  readonly name = 'fixture';
+  private fixtureDir: string;
+  private byHash: Map<string, OcrFixture> = new Map();
+  private byFilename: Map<string, OcrFixture> = new Map();
+  private recognizedCount: number = 0;
+
+  constructor(fixtureDir?: string) {
+    this.fixtureDir = fixtureDir || process.env.OCR_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'ocr');
+  }
+
+  async initialize(): Promise<void> {
+    this.byHash.clear();
+    this.byFilename.clear();
+
+    if (!fs.existsSync(this.fixtureDir)) {
+      throw new Error(`OCR fixture directory not found: ${this.fixtureDir}`);
+    }
+
+    const files = fs.readdirSync(this.fixtureDir).filter(file => file.endsWith('.json'));
+    for (const file of files) {
+      const fixture = JSON.parse(fs.readFileSync(path.join(this.fixtureDir, file), 'utf-8')) as OcrFixture;
+      if (fixture.hash) {
+        this.byHash.set(fixture.hash.toLowerCase(), fixture);
+      }
+      if (fixture.filename) {
+        this.byFilename.set(fixture.filename.toLowerCase(), fixture);
+      }
+    }
+
+    logger.info(`Loaded ${files.length} OCR fixture(s) from ${this.fixtureDir}`);
+  }
+
+  async recognize(image: string | Buffer, options: OcrRecognizeOptions = {}): Promise<OCRResult> {
+    const filename = options.source?.filename || (typeof image === 'string' ? path.basename(image) : undefined);
+    const fixture = (options.source && this.byHash.get(options.source.hash.toLowerCase()))
+      || (filename && this.byFilename.get(filename.toLowerCase()));
+
+    if (!fixture) {
+      throw new Error(`No OCR fixture for image (hash: ${options.source?.hash ?? 'unknown'}, filename: ${filename ?? 'unknown'})`);
+    }
+
+    this.recognizedCount++;
+
+    if (options.mode === 'digits') {
+      return fixture.level_digits || fixture.regions?.level_number || { text: '', confidence: 0 };
+    }
+
+    if (options.region) {
+      return fixture.regions?.[options.region] || { text: '', confidence: 0 };
+    }
+
+    return fixture.result;
+  }
+
+  getStats(): OCRPoolStats | null {
+    return {
+      workers: 1,
+      busy_workers: 0,
+      queue_depth: 0,
+      max_queue_size: 0,
+      completed_jobs: this.recognizedCount,
+      failed_jobs: 0,
+      timed_out_jobs: 0,
+      rejected_jobs: 0,
+      average_wait_ms: 0,
+      average_processing_ms: 0,
+    };
+  }
+
+  async terminate(): Promise<void> {
+    this.byHash.clear();
+    this.byFilename.clear();
+  }
+}
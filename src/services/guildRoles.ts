@@ -0,0 +1,86 @@
+import { RankConfig } from '../types';
+import { databaseService } from './database';
+import { rankConfigService } from './rankConfig';
+import { logger } from './logger';
+
+/**
+ * Per-guild rank-to-role mappings. Rank names and level ranges come from the shared rank table;
+ * each guild maps ranks to its own roles. Ranks a guild hasn't mapped fall back to the role ID
+ * in the rank table (the original server's roles).
+ */
+class GuildRoleService {
+  // guild ID -> rank name -> role ID
+  private cache: Map<string, Map<string, string>> = new Map();
+
+  private async getMappings(guildId: string): Promise<Map<string, string>> {
+    const cached = this.cache.get(guildId);
+    if (cached) return cached;
+
+    const rows = await databaseService.getGuildRankRoles(guildId);
+    const mappings = new Map(rows.map(row => [row.rank_name, row.role_id]));
+    this.cache.set(guildId, mappings);
+    logger.debug(`Loaded ${mappings.size} rank role mapping(s) for guild ${guildId}`);
+    return mappings;
+  }
+
+  /**
+   * Role ID for a rank in a guild
+   */
+  async getRoleId(guildId: string, rank: RankConfig): Promise<string> {
+    const mappings = await this.getMappings(guildId);
+    return mappings.get(rank.rank_name) ?? rank.role_id;
+  }
+
+  /**
+   * The shared rank table with role IDs for a guild, plus whether each rank is mapped there
+   */
+  async getRanksForGuild(guildId: string): Promise<Array<RankConfig & { mapped: boolean }>> {
+    const mappings = await this.getMappings(guildId);
+    return rankConfigService.getRanks().map(rank => ({
+      ...rank,
+      role_id: mappings.get(rank.rank_name) ?? rank.role_id,
+      mapped: mappings.has(rank.rank_name),
+    }));
+  }
+
+  /**
+   * Mappings stored for a guild whose rank no longer exists in the rank table
+   */
+  async getStaleMappings(guildId: string): Promise<Array<{ rank_name: string; role_id: string }>> {
+    const mappings = await this.getMappings(guildId);
+    const rankNames = new Set(rankConfigService.getRanks().map(rank => rank.rank_name));
+    return [...mappings.entries()]
+      .filter(([rankName]) => !rankNames.has(rankName))
+      .map(([rank_name, role_id]) => ({ rank_name, role_id }));
+  }
+
+  /**
+   * Whether a role is a rank role in a guild (mapped there, or from the rank table)
+   */
+  async isRankRole(guildId: string, roleId: string): Promise<boolean> {
+    const mappings = await this.getMappings(guildId);
+    for (const mappedRoleId of mappings.values()) {
+      if (mappedRoleId === roleId) return true;
+    }
+    return rankConfigService.isRankRole(roleId);
+  }
+
+  /**
+   * Map a rank to a role in a guild
+   */
+  async setRole(guildId: string, rank: RankConfig, roleId: string): Promise<void> {
+    await databaseService.setGuildRankRole(guildId, rank.rank_name, roleId);
+    this.cache.delete(guildId);
+  }
+
+  /**
+   * Remove a rank's role mapping in a guild. Returns false if the rank wasn't mapped.
+   */
+  async removeRole(guildId: string, rankName: string): Promise<boolean> {
+    const removed = await databaseService.deleteGuildRankRole(guildId, rankName);
+    this.cache.delete(guildId);
+    return removed;
+  }
+}
+
+export const guildRoleService = new GuildRoleService();
@@ -0,0 +1,64 @@
+import { DowngradePolicy } from '../types';
+import { databaseService } from './database';
+import { logger } from './logger';
+
+export const DOWNGRADE_POLICIES: DowngradePolicy[] = ['highest', 'latest', 'review'];
+const DEFAULT_DOWNGRADE_POLICY: DowngradePolicy = 'highest';
+
+/**
+ * Per-guild verification settings. Guilds that haven't set a value use the default from the
+ * environment.
+ */
+class GuildSettingsService {
+  // guild ID -> downgrade policy stored for the guild (null when it uses the default)
+  private cache: Map<string, DowngradePolicy | null> = new Map();
+
+  /**
+   * Whether a string is a known downgrade policy
+   */
+  isDowngradePolicy(value: string): value is DowngradePolicy {
+    return (DOWNGRADE_POLICIES as string[]).includes(value);
+  }
+
+  /**
+   * Downgrade policy for guilds that haven't set one (DOWNGRADE_POLICY)
+   */
+  getDefaultDowngradePolicy(): DowngradePolicy {
+    const policy = (process.env.DOWNGRADE_POLICY || '').trim().toLowerCase();
+    return this.isDowngradePolicy(policy) ? policy : DEFAULT_DOWNGRADE_POLICY;
+  }
+
+  /**
+   * What to do in a guild when a screenshot shows a lower rank than the user's current verification
+   */
+  async getDowngradePolicy(guildId: string): Promise<DowngradePolicy> {
+    if (!this.cache.has(guildId)) {
+      const settings = await databaseService.getGuildSettings(guildId);
+      const stored = settings?.downgrade_policy ?? null;
+      if (stored !== null && !this.isDowngradePolicy(stored)) {
+        logger.warn('Unknown downgrade policy stored for guild, using the default', { guild_id: guildId, policy: stored });
+      }
+      this.cache.set(guildId, stored !== null && this.isDowngradePolicy(stored) ? stored : null);
+    }
+
+    return this.cache.get(guildId) ?? this.getDefaultDowngradePolicy();
+  }
+
+  /**
+   * Whether a guild has set its own downgrade policy
+   */
+  async hasOwnDowngradePolicy(guildId: string): Promise<boolean> {
+    await this.getDowngradePolicy(guildId);
+    return this.cache.get(guildId) !== null;
+  }
+
+  /**
+   * Set a guild's downgrade policy, or go back to the default with null
+   */
+  async setDowngradePolicy(guildId: string, policy: DowngradePolicy | null): Promise<void> {
+    await databaseService.setGuildDowngradePolicy(guildId, policy);
+    this.cache.set(guildId, policy);
+  }
+}
+
+export const guildSettingsService = new GuildSettingsService();
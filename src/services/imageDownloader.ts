@@ -0,0 +1,231 @@
+import fs from 'fs';
+import https from 'https';
+import http from 'http';
+import { ImageFormat } from '../types';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_CONNECT_TIMEOUT_MS = 10000;
+const DEFAULT_READ_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_REDIRECTS = 3;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Bytes needed to recognise every supported format (WebP: "RIFF" <size> "WEBP")
+const MAGIC_LENGTH = 12;
+
+/**
+ * Thrown when an image can't be downloaded. Subclasses say why, so callers can tell the user.
+ */
+export class ImageDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageDownloadError';
+  }
+}
+
+/**
+ * Thrown when an image is larger than the download limit
+ */
+export class ImageTooLargeError extends ImageDownloadError {
+  constructor(public readonly maxBytes: number) {
+    super(`Image is larger than ${maxBytes} bytes`);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+/**
+ * Thrown when the downloaded bytes are not a PNG, JPEG or WebP image, whatever the URL or content type says
+ */
+export class UnsupportedImageFormatError extends ImageDownloadError {
+  constructor() {
+    super('Image is not a PNG, JPEG or WebP file');
+    this.name = 'UnsupportedImageFormatError';
+  }
+}
+
+/**
+ * Thrown when the server doesn't respond, or stops sending data, within the timeout
+ */
+export class ImageDownloadTimeoutError extends ImageDownloadError {
+  constructor(stage: 'connect' | 'read', timeoutMs: number) {
+    super(`Image download timed out after ${timeoutMs}ms (${stage})`);
+    this.name = 'ImageDownloadTimeoutError';
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Largest image that will be downloaded (IMAGE_MAX_BYTES)
+ */
+export function getMaxImageBytes(): number {
+  return envNumber('IMAGE_MAX_BYTES', DEFAULT_MAX_BYTES);
+}
+
+/**
+ * Image format from the file's leading bytes, or null if it isn't a supported image
+ */
+export function detectImageFormat(bytes: Buffer): ImageFormat | null {
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (bytes.length >= MAGIC_LENGTH && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+}
+
+/**
+ * GET a URL, following redirects, and resolve with the successful response
+ */
+function request(url: string, redirectsLeft: number, connectTimeoutMs: number): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      reject(new ImageDownloadError(`Invalid image URL: ${url}`));
+      return;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      reject(new ImageDownloadError(`Unsupported image URL protocol: ${parsed.protocol}`));
+      return;
+    }
+
+    const protocol = parsed.protocol === 'https:' ? https : http;
+    const req = protocol.get(parsed, (response) => {
+      clearTimeout(connectTimer);
+      const status = response.statusCode ?? 0;
+
+      if (REDIRECT_STATUSES.includes(status) && response.headers.location) {
+        response.resume();
+        if (redirectsLeft <= 0) {
+          reject(new ImageDownloadError('Too many redirects while downloading image'));
+          return;
+        }
+        const next = new URL(response.headers.location, parsed).toString();
+        request(next, redirectsLeft - 1, connectTimeoutMs).then(resolve, reject);
+        return;
+      }
+
+      if (status !== 200) {
+        response.resume();
+        reject(new ImageDownloadError(`Failed to download image: ${status}`));
+        return;
+      }
+
+      resolve(response);
+    });
+
+    // Covers DNS, connecting and waiting for the response headers
+    const connectTimer = setTimeout(() => {
+      req.destroy(new ImageDownloadTimeoutError('connect', connectTimeoutMs));
+    }, connectTimeoutMs);
+
+    req.on('error', (err) => {
+      clearTimeout(connectTimer);
+      reject(err instanceof ImageDownloadError ? err : new ImageDownloadError(`Failed to download image: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Download an image into memory. The download is stopped as soon as it exceeds IMAGE_MAX_BYTES
+ * or its first bytes show it isn't a PNG, JPEG or WebP image.
+ */
+export async function downloadImageBuffer(url: string): Promise<{ buffer: Buffer; format: ImageFormat }> {
+  const maxBytes = getMaxImageBytes();
+  const readTimeoutMs = envNumber('IMAGE_READ_TIMEOUT_MS', DEFAULT_READ_TIMEOUT_MS);
+  const response = await request(
+    url,
+    envNumber('IMAGE_MAX_REDIRECTS', DEFAULT_MAX_REDIRECTS),
+    envNumber('IMAGE_CONNECT_TIMEOUT_MS', DEFAULT_CONNECT_TIMEOUT_MS)
+  );
+
+  const declaredLength = parseInt(response.headers['content-length'] || '', 10);
+  if (declaredLength > maxBytes) {
+    response.destroy();
+    throw new ImageTooLargeError(maxBytes);
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let format: ImageFormat | null = null;
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(readTimer);
+      response.destroy();
+      reject(error);
+    };
+
+    // Restarted on every chunk, so only a stalled download times out
+    let readTimer = setTimeout(() => fail(new ImageDownloadTimeoutError('read', readTimeoutMs)), readTimeoutMs);
+
+    response.on('data', (chunk: Buffer) => {
+      clearTimeout(readTimer);
+      readTimer = setTimeout(() => fail(new ImageDownloadTimeoutError('read', readTimeoutMs)), readTimeoutMs);
+
+      received += chunk.length;
+      if (received > maxBytes) {
+        fail(new ImageTooLargeError(maxBytes));
+        return;
+      }
+      chunks.push(chunk);
+
+      if (!format && received >= MAGIC_LENGTH) {
+        format = detectImageFormat(Buffer.concat(chunks));
+        if (!format) {
+          fail(new UnsupportedImageFormatError());
+        }
+      }
+    });
+
+    response.on('end', () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(readTimer);
+
+      const buffer = Buffer.concat(chunks);
+      const detected = format ?? detectImageFormat(buffer);
+      if (!detected) {
+        reject(new UnsupportedImageFormatError());
+        return;
+      }
+      resolve({ buffer, format: detected });
+    });
+
+    response.on('error', (err) => {
+      fail(new ImageDownloadError(`Image download failed: ${err.message}`));
+    });
+
+    response.on('close', () => {
+      fail(new ImageDownloadError('Image download was interrupted'));
+    });
+  });
+}
+
+/**
+ * Download an image to a file. Nothing is left at the path if the download fails.
+ */
+export async function downloadImage(url: string, filePath: string): Promise<ImageFormat> {
+  const { buffer, format } = await downloadImageBuffer(url);
+
+  try {
+    await fs.promises.writeFile(filePath, buffer);
+  } catch (error) {
+    await fs.promises.unlink(filePath).catch(() => {});
+    throw error;
+  }
+
+  return format;
+}
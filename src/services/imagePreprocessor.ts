@@ -0,0 +1,130 @@
+import sharp from 'sharp';
+import { PreprocessingConfig, PreprocessingStep, PreprocessingVariant } from '../types';
+import preprocessingConfig from '../config/preprocessing.json';
+import { logger } from './logger';
+
+class ImagePreprocessorService {
+  private config: PreprocessingConfig;
+
+  constructor() {
+    this.config = preprocessingConfig as PreprocessingConfig;
+  }
+
+  /**
+   * Get the variants to try, in order. OCR_PREPROCESS_VARIANTS restricts and reorders them.
+   */
+  getVariants(): PreprocessingVariant[] {
+    const selected = (process.env.OCR_PREPROCESS_VARIANTS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+
+    if (selected.length === 0) {
+      return this.config.variants;
+    }
+
+    const variants: PreprocessingVariant[] = [];
+    for (const name of selected) {
+      const variant = this.config.variants.find(v => v.name === name);
+      if (variant) {
+        variants.push(variant);
+      } else {
+        logger.warn(`Unknown preprocessing variant in OCR_PREPROCESS_VARIANTS: ${name}`);
+      }
+    }
+
+    return variants.length > 0 ? variants : this.config.variants;
+  }
+
+  /**
+   * Get a variant by name, falling back to the first configured variant
+   */
+  getVariant(name?: string): PreprocessingVariant {
+    return this.config.variants.find(v => v.name === name) || this.getVariants()[0];
+  }
+
+  /**
+   * Get the pixel dimensions of an image
+   */
+  async getDimensions(input: string | Buffer): Promise<{ width: number; height: number }> {
+    const { width = 0, height = 0 } = await sharp(input).metadata();
+    return { width, height };
+  }
+
+  /**
+   * Apply a variant's steps to an image. Variants without steps return the input untouched.
+   */
+  async apply(input: string | Buffer, variant: PreprocessingVariant): Promise<string | Buffer> {
+    if (variant.steps.length === 0) {
+      return input;
+    }
+
+    let image = await sharp(input).rotate().png().toBuffer();
+    for (const step of variant.steps) {
+      image = await this.applyStep(image, step);
+    }
+
+    logger.debug(`Applied preprocessing variant: ${variant.name}`, {
+      steps: variant.steps.map(s => s.type),
+    });
+
+    return image;
+  }
+
+  /**
+   * Apply a single step. Each step produces a new buffer so that later steps
+   * (e.g. invert_if_dark) see the result of earlier ones.
+   */
+  private async applyStep(image: Buffer, step: PreprocessingStep): Promise<Buffer> {
+    const pipeline = sharp(image);
+
+    switch (step.type) {
+      case 'resize':
+        pipeline.resize({ width: step.width || this.config.target_width });
+        break;
+      case 'grayscale':
+        pipeline.grayscale();
+        break;
+      case 'normalize':
+        pipeline.normalise();
+        break;
+      case 'contrast':
+        pipeline.linear(step.factor, 128 * (1 - step.factor));
+        break;
+      case 'threshold':
+        pipeline.threshold(step.value);
+        break;
+      case 'invert':
+        pipeline.negate({ alpha: false });
+        break;
+      case 'invert_if_dark': {
+        // Light-on-dark text (dark theme) reads much better once flipped to dark-on-light
+        const { channels } = await sharp(image).stats();
+        const mean = channels.slice(0, 3).reduce((sum, c) => sum + c.mean, 0) / Math.min(3, channels.length);
+        if (mean / 255 < (step.brightness ?? 0.5)) {
+          pipeline.negate({ alpha: false });
+        }
+        break;
+      }
+      case 'sharpen':
+        pipeline.sharpen();
+        break;
+      case 'crop': {
+        const { width = 0, height = 0 } = await sharp(image).metadata();
+        const left = Math.min(width - 1, Math.round(step.left * width));
+        const top = Math.min(height - 1, Math.round(step.top * height));
+        pipeline.extract({
+          left,
+          top,
+          width: Math.max(1, Math.min(width - left, Math.round(step.width * width))),
+          height: Math.max(1, Math.min(height - top, Math.round(step.height * height))),
+        });
+        break;
+      }
+    }
+
+    return pipeline.png().toBuffer();
+  }
+}
+
+export const imagePreprocessor = new ImagePreprocessorService();
@@ -0,0 +1,157 @@
+import { LanguageKeywords, ProfileStatName } from '../types';
+import languagesConfig from '../config/languages.json';
+import { logger } from './logger';
+
+export interface KeywordIndicator {
+  language: string;
+  id: string;
+  pattern: RegExp;
+}
+
+interface CompiledLanguage {
+  code: string;
+  profileIndicators: KeywordIndicator[];
+  mainMenuIndicators: KeywordIndicator[];
+}
+
+/**
+ * Per-language keyword tables for the profile screen and the OCR languages to load
+ */
+class LanguageService {
+  private tables: Record<string, LanguageKeywords>;
+  private compiled: CompiledLanguage[];
+
+  constructor() {
+    this.tables = languagesConfig as Record<string, LanguageKeywords>;
+    this.compiled = Object.entries(this.tables).map(([code, table]) => ({
+      code,
+      profileIndicators: this.compileIndicators(code, table.profile_indicators),
+      mainMenuIndicators: this.compileIndicators(code, table.main_menu_indicators),
+    }));
+  }
+
+  private compileIndicators(language: string, indicators: Record<string, string[]>): KeywordIndicator[] {
+    return Object.entries(indicators).flatMap(([id, patterns]) =>
+      patterns.map(pattern => ({ language, id, pattern: new RegExp(pattern, 'i') }))
+    );
+  }
+
+  /**
+   * Tesseract language codes to load, from OCR_LANGUAGES (default: eng)
+   */
+  getOcrLanguages(): string[] {
+    const languages = (process.env.OCR_LANGUAGES || 'eng')
+      .split(',')
+      .map(code => code.trim())
+      .filter(Boolean);
+    return languages.length > 0 ? languages : ['eng'];
+  }
+
+  /**
+   * Strip accents so keyword tables can be written in plain ASCII
+   */
+  fold(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/\u0131/g, 'i')
+      .replace(/\u0130/g, 'I');
+  }
+
+  /**
+   * Profile screen indicators across all languages
+   */
+  getProfileIndicators(): KeywordIndicator[] {
+    return this.compiled.flatMap(language => language.profileIndicators);
+  }
+
+  /**
+   * Main menu indicators across all languages
+   */
+  getMainMenuIndicators(): KeywordIndicator[] {
+    return this.compiled.flatMap(language => language.mainMenuIndicators);
+  }
+
+  /**
+   * "Level progress" label patterns across all languages, most specific first within each language
+   */
+  getLevelProgressPatterns(): RegExp[] {
+    return Object.values(this.tables).flatMap(table =>
+      table.level_progress_labels.map(pattern => new RegExp(pattern, 'i'))
+    );
+  }
+
+  /**
+   * Regex alternation of the "Level" label in all languages (for building larger patterns)
+   */
+  getLevelLabelSource(): string {
+    return this.alternation(Object.values(this.tables).flatMap(table => table.level_labels));
+  }
+
+  /**
+   * Regex alternation of the "Level progress" label in all languages
+   */
+  getLevelProgressSource(): string {
+    return this.alternation(Object.values(this.tables).flatMap(table => table.level_progress_labels));
+  }
+
+  /**
+   * Regex alternation of the "Rank" label in all languages
+   */
+  getRankLabelSource(): string {
+    return this.alternation(Object.values(this.tables).flatMap(table => table.rank_labels));
+  }
+
+  /**
+   * Regex alternation of the "Unique ID" label in all languages
+   */
+  getUniqueIdLabelSource(): string {
+    return this.alternation(Object.values(this.tables).flatMap(table => table.unique_id_labels));
+  }
+
+  /**
+   * Regex alternation of a player stat label (e.g. "Games Won") in all languages
+   */
+  getStatLabelSource(stat: ProfileStatName): string {
+    return this.alternation(Object.values(this.tables).flatMap(table => table.stat_labels[stat]));
+  }
+
+  private alternation(patterns: string[]): string {
+    return `(?:${[...new Set(patterns)].join('|')})`;
+  }
+
+  /**
+   * Detect the screenshot language from which table's keywords appear most often.
+   * Ties go to the language listed first in the config (English).
+   */
+  detectLanguage(text: string): string | null {
+    const folded = this.fold(text);
+    let best: { code: string; hits: number } | null = null;
+
+    for (const language of this.compiled) {
+      const table = this.tables[language.code];
+      const labelPatterns = [...table.level_progress_labels, ...table.level_labels, ...table.rank_labels]
+        .map(pattern => new RegExp(`\\b${pattern}`, 'i'));
+
+      const hits = [...language.profileIndicators, ...language.mainMenuIndicators]
+        .filter(indicator => indicator.pattern.test(folded)).length
+        + labelPatterns.filter(pattern => pattern.test(folded)).length;
+
+      if (hits > 0 && (!best || hits > best.hits)) {
+        best = { code: language.code, hits };
+      }
+    }
+
+    logger.debug(`Detected screenshot language: ${best?.code ?? 'unknown'}`, { hits: best?.hits ?? 0 });
+    return best ? best.code : null;
+  }
+
+  /**
+   * Display name of a language code
+   */
+  getLanguageName(code: string): string {
+    return this.tables[code]?.name || code;
+  }
+}
+
+export const languageService = new LanguageService();
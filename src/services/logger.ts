@@ -68,6 +68,12 @@ class LoggerService {
       success: entry.success,
       error_message: entry.error_message,
       command_name: entry.command_name,
+      ocr_variant: entry.ocr_variant,
+      language: entry.language,
+      reviewer_id: entry.reviewer_id,
+      review_outcome: entry.review_outcome,
+      previous_rank: entry.previous_rank,
+      downgrade_policy: entry.downgrade_policy,
     };
 
     if (entry.success) {
@@ -96,6 +102,13 @@ class LoggerService {
     this.logger.debug(message, meta);
   }
 
+  /**
+   * Change the minimum level written to the log (e.g. 'warn' for command-line tools)
+   */
+  setLevel(level: string): void {
+    this.logger.level = level;
+  }
+
   getLogPath(): string {
     return this.logPath;
   }
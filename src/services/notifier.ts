@@ -0,0 +1,146 @@
+import { EmbedBuilder } from 'discord.js';
+import { dmCleanupService } from './dmCleanup';
+import { logger } from './logger';
+
+/**
+ * Send DM to user with verification confirmation
+ */
+export async function sendVerificationDM(userId: string, rankName: string, levelMin: number): Promise<void> {
+  try {
+    const client = (global as any).client;
+    if (!client) {
+      logger.warn('Discord client not available for DM', { user_id: userId });
+      return;
+    }
+    const user = await client.users.fetch(userId);
+    if (!user) {
+      logger.warn('User not found for DM', { user_id: userId });
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle('✅ Rank Verification Successful')
+      .setDescription(
+        `Your 8 Ball Pool rank has been verified as **${rankName}** (Level ${levelMin}+).\n\n` +
+        `Your Discord role has been updated successfully.\n\n` +
+        `\u200B`
+      )
+      .addFields(
+        {
+          name: '🎁 Auto-Claim Rewards',
+          value: `Why not Register in are Automatic rewards claiming Process for free if you arent already click the link below\n\n\n` +
+                 `**8BP Rewards Registration:**\n\n` +
+                 `https://8ballpool.website/8bp-rewards/home`,
+          inline: false,
+        },
+        {
+          name: '\u200B',
+          value: '\u200B',
+          inline: false,
+        },
+        {
+          name: '\u200B',
+          value: '\u200B',
+          inline: false,
+        },
+        {
+          name: '🔗 Link Your Account',
+          value: `If you would like to link your Discord to your 8 Ball Pool Unique ID, you can use the slash command:\n\n\n` +
+                 `\`/link-account\``,
+          inline: false,
+        }
+      )
+      .setColor(0x00AE86)
+      .setTimestamp();
+
+    const sentMessage = await user.send({ embeds: [embed] });
+    logger.info('Verification DM sent', { user_id: userId, rank_name: rankName });
+    
+    // Schedule message for deletion after 30 minutes
+    if (sentMessage) {
+      dmCleanupService.scheduleDeletion(sentMessage);
+    }
+  } catch (error) {
+    // User may have DMs disabled
+    logger.warn('Failed to send verification DM', { error, user_id: userId });
+  }
+}
+
+/**
+ * Send error DM to user
+ */
+export async function sendErrorDM(userId: string, message: string): Promise<void> {
+  try {
+    const client = (global as any).client;
+    if (!client) {
+      return;
+    }
+    const user = await client.users.fetch(userId);
+    if (!user) {
+      return;
+    }
+
+    const sentMessage = await user.send(message);
+    
+    // Schedule message for deletion after 30 minutes
+    if (sentMessage) {
+      dmCleanupService.scheduleDeletion(sentMessage);
+    }
+  } catch (error) {
+    // User may have DMs disabled - that's okay for error messages
+    logger.debug('Failed to send error DM', { error, user_id: userId });
+  }
+}
+
+/**
+ * Send DM to user about a verification held for moderator review (pending or rejected)
+ */
+export async function sendReviewDM(userId: string, title: string, description: string, color: number): Promise<void> {
+  try {
+    const client = (global as any).client;
+    if (!client) {
+      logger.warn('Discord client not available for DM', { user_id: userId });
+      return;
+    }
+    const user = await client.users.fetch(userId);
+    if (!user) {
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setDescription(description)
+      .setColor(color)
+      .setTimestamp();
+
+    const sentMessage = await user.send({ embeds: [embed] });
+
+    // Schedule message for deletion after 30 minutes
+    if (sentMessage) {
+      dmCleanupService.scheduleDeletion(sentMessage);
+    }
+  } catch (error) {
+    // User may have DMs disabled
+    logger.warn('Failed to send review DM', { error, user_id: userId });
+  }
+}
+
+/**
+ * Post an alert embed to the moderators' review channel (REVIEW_CHANNEL_ID), if one is configured
+ */
+export async function sendModeratorAlert(embed: EmbedBuilder): Promise<void> {
+  const channelId = process.env.REVIEW_CHANNEL_ID;
+  const client = (global as any).client;
+  if (!channelId || !client) {
+    return;
+  }
+
+  try {
+    const channel = await client.channels.fetch(channelId);
+    if (channel && 'send' in channel) {
+      await channel.send({ embeds: [embed] });
+    }
+  } catch (error) {
+    logger.warn('Failed to send moderator alert', { error, channel_id: channelId });
+  }
+}
@@ -1,82 +1,342 @@
-import { createWorker } from 'tesseract.js';
-import { OCRResult } from '../types';
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  OCRResult,
+  OCRPoolStats,
+  OCRCacheStats,
+  OcrEngine,
+  OcrImageSource,
+  OcrRecognizeOptions,
+  ProfileRegionName,
+  ProfileRegions,
+  RegionOCRResult,
+} from '../types';
+import { OCRQueueFullError, OCRTimeoutError } from './ocrPool';
+import { TesseractEngine } from './tesseractEngine';
+import { FixtureEngine } from './fixtureEngine';
+import { imagePreprocessor } from './imagePreprocessor';
+import { profileLayoutService } from './profileLayout';
+import { ocrCache } from './ocrCache';
+import { languageService } from './languages';
 import { logger } from './logger';
 
+export interface OCRExtractOptions {
+  /**
+   * Decide whether a variant's result is good enough to stop trying further variants.
+   * Defaults to a minimum page confidence (OCR_MIN_CONFIDENCE).
+   */
+  accept?: (result: OCRResult) => boolean;
+  /**
+   * Original filename of the image (e.g. the Discord attachment name)
+   */
+  filename?: string;
+  /**
+   * Run OCR again instead of using a cached result; the new result replaces the cached one
+   */
+  fresh?: boolean;
+}
+
+/**
+ * Create the engine selected by OCR_ENGINE (default: tesseract)
+ */
+function createEngine(): OcrEngine {
+  const engineName = (process.env.OCR_ENGINE || 'tesseract').toLowerCase();
+  switch (engineName) {
+    case 'tesseract':
+      return new TesseractEngine();
+    case 'fixture':
+      return new FixtureEngine();
+    default:
+      throw new Error(`Unknown OCR_ENGINE: ${engineName}`);
+  }
+}
+
 class OCRService {
-  private worker: any = null;
+  private engine: OcrEngine | null = null;
   private initialized: boolean = false;
+  private initializing: Promise<void> | null = null;
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
+    if (this.initializing) return this.initializing;
 
-    try {
-      this.worker = await createWorker('eng');
-      this.initialized = true;
-      logger.info('OCR service initialized');
-    } catch (error) {
-      logger.error('Failed to initialize OCR service', { error });
-      throw error;
+    this.initializing = (async () => {
+      try {
+        const engine = this.engine || createEngine();
+        await engine.initialize();
+        this.engine = engine;
+        this.initialized = true;
+        logger.info(`OCR service initialized (engine: ${engine.name})`);
+      } catch (error) {
+        logger.error('Failed to initialize OCR service', { error });
+        throw error;
+      } finally {
+        this.initializing = null;
+      }
+    })();
+
+    return this.initializing;
+  }
+
+  /**
+   * Replace the OCR engine (e.g. with a FixtureEngine in tests). Terminates the current one.
+   */
+  async useEngine(engine: OcrEngine): Promise<void> {
+    await this.terminate();
+    this.engine = engine;
+  }
+
+  /**
+   * Run a single recognize job on the engine
+   */
+  private async recognize(image: string | Buffer, options: OcrRecognizeOptions = {}): Promise<OCRResult> {
+    if (!this.initialized) {
+      await this.initialize();
     }
+
+    return this.engine!.recognize(image, options);
+  }
+
+  /**
+   * Identify the original image so engines can key results on it
+   */
+  private async describeSource(image: string | Buffer, filename?: string): Promise<OcrImageSource> {
+    const content = typeof image === 'string' ? await fs.promises.readFile(image) : image;
+    return {
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
+      filename,
+    };
   }
 
-  async extractText(imagePath: string): Promise<OCRResult> {
+  /**
+   * Cache key for an OCR operation on an image. Results depend on the engine, the loaded
+   * languages and the preprocessing variant as well as the image content.
+   */
+  private async cacheKey(kind: string, source: OcrImageSource, variant?: string): Promise<string> {
     if (!this.initialized) {
       await this.initialize();
     }
+    const languages = languageService.getOcrLanguages().join('+');
+    return [kind, this.engine!.name, languages, variant || '', source.hash].join(':');
+  }
+
+  /**
+   * Cached result of an OCR operation, or a fresh one that replaces it
+   */
+  private cached<T>(key: string, fresh: boolean | undefined, compute: () => Promise<T>, cacheable?: (value: T) => boolean): Promise<T> {
+    return fresh ? ocrCache.refresh(key, compute, cacheable) : ocrCache.getOrCompute(key, compute, cacheable);
+  }
+
+  /**
+   * Run each preprocessing variant in turn until one produces an accepted result.
+   * If none is accepted, the most confident result is returned.
+   * Each variant's result is cached by image content and the accept check runs on the cached
+   * result, so callers with different accept criteria share OCR work but each get their own pick.
+   */
+  private async recognizeWithVariants(image: string | Buffer, options: OCRExtractOptions): Promise<OCRResult> {
+    const source = await this.describeSource(image, options.filename);
+    const minConfidence = parseFloat(process.env.OCR_MIN_CONFIDENCE || '60');
+    const accept = options.accept || ((result: OCRResult) => result.confidence >= minConfidence);
+
+    let best: OCRResult | null = null;
+
+    for (const variant of imagePreprocessor.getVariants()) {
+      let preprocessingFailed = false;
+      const result = await this.cached(await this.cacheKey('page', source, variant.name), options.fresh, async (): Promise<OCRResult> => {
+        let prepared: string | Buffer;
+        try {
+          prepared = await imagePreprocessor.apply(image, variant);
+        } catch (error) {
+          preprocessingFailed = true;
+          throw error;
+        }
+        return { ...(await this.recognize(prepared, { source })), variant: variant.name };
+      }).catch(error => {
+        if (!preprocessingFailed) throw error;
+        logger.warn(`Preprocessing variant ${variant.name} failed, skipping`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      });
+      if (!result) continue;
+
+      logger.debug(`OCR variant ${variant.name} (confidence: ${result.confidence}): ${result.text.substring(0, 200)}`);
 
+      if (accept(result)) {
+        logger.debug(`OCR result accepted from variant: ${variant.name}`);
+        return result;
+      }
+
+      if (!best || result.confidence > best.confidence) {
+        best = result;
+      }
+    }
+
+    if (!best) {
+      throw new Error('No preprocessing variant could be applied to the image');
+    }
+
+    logger.debug(`No OCR variant accepted, using most confident: ${best.variant}`);
+    return best;
+  }
+
+  async extractText(imagePath: string, options: OCRExtractOptions = {}): Promise<OCRResult> {
     try {
       logger.debug(`Processing image: ${imagePath}`);
-      
-      const { data } = await this.worker.recognize(imagePath, {
-        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz ',
-      });
 
-      const text = data.text.trim();
-      const confidence = data.confidence || 0;
+      const result = await this.recognizeWithVariants(imagePath, options);
 
-      logger.info(`OCR extracted text (confidence: ${confidence}): ${text.substring(0, 500)}`);
+      logger.info(`OCR extracted text (confidence: ${result.confidence}, variant: ${result.variant}): ${result.text.substring(0, 500)}`);
 
-      return {
-        text,
-        confidence,
-      };
+      return result;
     } catch (error) {
       logger.error('OCR extraction failed', { error, imagePath });
+      // Pool errors are passed through so callers can tell users the queue is busy
+      if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+        throw error;
+      }
       throw new Error(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async extractTextFromBuffer(imageBuffer: Buffer): Promise<OCRResult> {
-    if (!this.initialized) {
-      await this.initialize();
-    }
-
+  async extractTextFromBuffer(imageBuffer: Buffer, options: OCRExtractOptions = {}): Promise<OCRResult> {
     try {
       logger.debug('Processing image from buffer');
-      
-      const { data } = await this.worker.recognize(imageBuffer, {
-        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz ',
-      });
 
-      const text = data.text.trim();
-      const confidence = data.confidence || 0;
+      const result = await this.recognizeWithVariants(imageBuffer, options);
 
-      logger.info(`OCR extracted text from buffer (confidence: ${confidence}): ${text.substring(0, 500)}`);
+      logger.info(`OCR extracted text from buffer (confidence: ${result.confidence}, variant: ${result.variant}): ${result.text.substring(0, 500)}`);
 
-      return {
-        text,
-        confidence,
-      };
+      return result;
     } catch (error) {
       logger.error('OCR extraction from buffer failed', { error });
+      if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+        throw error;
+      }
       throw new Error(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Preprocess an image and pick the layout template matching its aspect ratio
+   */
+  private async prepareLayout(image: string | Buffer, variantName?: string) {
+    const variant = imagePreprocessor.getVariant(variantName);
+    const preparedImage = await imagePreprocessor.apply(image, variant);
+    const { width, height } = await imagePreprocessor.getDimensions(preparedImage);
+
+    const layout = profileLayoutService.selectLayout(width, height);
+    if (!layout) {
+      logger.debug('No profile layout template matches image, skipping region OCR', { width, height });
+      return null;
+    }
+
+    return { variant, preparedImage, width, height, layout };
+  }
+
+  /**
+   * Recognize the labelled regions of a profile screenshot using the layout template
+   * matching its aspect ratio. Returns null when no template fits the image.
+   */
+  async extractRegions(image: string | Buffer, options: { variant?: string; filename?: string; fresh?: boolean } = {}): Promise<RegionOCRResult | null> {
+    const source = await this.describeSource(image, options.filename);
+    const key = await this.cacheKey('regions', source, options.variant);
+
+    // A result missing a region that failed isn't cached, so a later submission of the image
+    // gets a full read instead of the degraded one
+    let complete = true;
+    return this.cached(key, options.fresh, async () => {
+      const recognized = await this.recognizeRegions(image, source, options.variant);
+      complete = recognized.complete;
+      return recognized.result;
+    }, () => complete);
+  }
+
+  /**
+   * Region OCR of an image, and whether every region could be read
+   */
+  private async recognizeRegions(
+    image: string | Buffer,
+    source: OcrImageSource,
+    variantName?: string
+  ): Promise<{ result: RegionOCRResult | null; complete: boolean }> {
+    const context = await this.prepareLayout(image, variantName);
+    if (!context) return { result: null, complete: true };
+
+    const { variant, preparedImage, width, height, layout } = context;
+
+    const regions: ProfileRegions = {};
+    const names = Object.keys(layout.regions) as ProfileRegionName[];
+    let complete = true;
+
+    await Promise.all(names.map(async (name) => {
+      const rectangle = profileLayoutService.toRectangle(layout.regions[name]!, width, height);
+      try {
+        regions[name] = { ...(await this.recognize(preparedImage, { rectangle, region: name, source })), variant: variant.name };
+      } catch (error) {
+        if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+          throw error;
+        }
+        complete = false;
+        logger.warn(`Region OCR failed for ${name}`, {
+          error: error instanceof Error ? error.message : String(error),
+          layout: layout.name,
+        });
+      }
+    }));
+
+    logger.info(`Region OCR completed (layout: ${layout.name})`, {
+      regions: Object.fromEntries(
+        Object.entries(regions).map(([name, result]) => [name, result!.text.substring(0, 100)])
+      ),
+    });
+
+    return { result: { layout: layout.name, regions }, complete };
+  }
+
+  /**
+   * Second, digits-only single-line pass over the level number (or the whole Level Progress
+   * panel when the layout has no level_number box). Returns null when no template fits the image.
+   */
+  async extractLevelDigits(image: string | Buffer, options: { variant?: string; filename?: string; fresh?: boolean } = {}): Promise<OCRResult | null> {
+    const source = await this.describeSource(image, options.filename);
+    const key = await this.cacheKey('digits', source, options.variant);
+    return this.cached(key, options.fresh, () => this.recognizeLevelDigits(image, source, options.variant));
+  }
+
+  private async recognizeLevelDigits(image: string | Buffer, source: OcrImageSource, variantName?: string): Promise<OCRResult | null> {
+    const context = await this.prepareLayout(image, variantName);
+    if (!context) return null;
+
+    const { variant, preparedImage, width, height, layout } = context;
+    const box = layout.regions.level_number || layout.regions.level_progress;
+    if (!box) return null;
+
+    const rectangle = profileLayoutService.toRectangle(box, width, height);
+    const result = await this.recognize(preparedImage, { rectangle, region: 'level_number', source, mode: 'digits' });
+
+    logger.info(`Level digits pass read "${result.text}" (confidence: ${result.confidence}, layout: ${layout.name})`);
+
+    return { ...result, variant: variant.name };
+  }
+
+  /**
+   * Queue depth and latency of the engine's worker pool
+   */
+  getStats(): OCRPoolStats | null {
+    return this.initialized && this.engine ? this.engine.getStats() : null;
+  }
+
+  /**
+   * Hit/miss counters of the OCR result cache
+   */
+  getCacheStats(): OCRCacheStats {
+    return ocrCache.getStats();
+  }
+
   async terminate(): Promise<void> {
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = null;
+    if (this.engine && this.initialized) {
+      await this.engine.terminate();
       this.initialized = false;
       logger.info('OCR service terminated');
     }
@@ -84,4 +344,3 @@ class OCRService {
 }
 
 export const ocrService = new OCRService();
-
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { OCRCacheStats } from '../types';
+import { logger } from './logger';
+
+interface CacheEntry {
+  value: unknown;
+}
+
+// How many disk writes between pruning passes over the cache directory
+const PRUNE_INTERVAL = 50;
+
+/**
+ * LRU cache for OCR output keyed by image content hash, with optional
+ * persistence to disk so results survive restarts.
+ */
+class OCRCacheService {
+  private entries: Map<string, CacheEntry> = new Map();
+  private hits: number = 0;
+  private misses: number = 0;
+  private writesSincePrune: number = 0;
+
+  private get maxEntries(): number {
+    return Math.max(1, parseInt(process.env.OCR_CACHE_MAX_ENTRIES || '200', 10) || 200);
+  }
+
+  private get enabled(): boolean {
+    return process.env.OCR_CACHE_ENABLED !== 'false';
+  }
+
+  private get persistent(): boolean {
+    return process.env.OCR_CACHE_PERSIST === 'true';
+  }
+
+  private get cacheDir(): string {
+    return process.env.OCR_CACHE_DIR || path.join(process.cwd(), 'tmp', 'ocr-cache');
+  }
+
+  /**
+   * Get a cached value, or compute and store it on a miss. A computed value that isn't
+   * cacheable (a degraded result) is returned without being stored.
+   */
+  async getOrCompute<T>(key: string, compute: () => Promise<T>, cacheable?: (value: T) => boolean): Promise<T> {
+    if (!this.enabled) {
+      return compute();
+    }
+
+    const cached = this.get(key);
+    if (cached) {
+      this.hits++;
+      logger.debug(`OCR cache hit: ${key}`);
+      return cached.value as T;
+    }
+
+    this.misses++;
+    const value = await compute();
+    if (!cacheable || cacheable(value)) {
+      this.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Compute a value and store it in place of any cached one
+   */
+  async refresh<T>(key: string, compute: () => Promise<T>, cacheable?: (value: T) => boolean): Promise<T> {
+    const value = await compute();
+    if (this.enabled && (!cacheable || cacheable(value))) {
+      this.set(key, value);
+    }
+    return value;
+  }
+
+  private get(key: string): CacheEntry | null {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry;
+    }
+
+    if (this.persistent) {
+      const diskEntry = this.readFromDisk(key);
+      if (diskEntry) {
+        this.remember(key, diskEntry);
+        return diskEntry;
+      }
+    }
+
+    return null;
+  }
+
+  private set(key: string, value: unknown): void {
+    const entry: CacheEntry = { value };
+    this.remember(key, entry);
+
+    if (this.persistent) {
+      this.writeToDisk(key, entry);
+    }
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  private filePath(key: string): string {
+    // Keys contain engine/variant names, so hash them into safe filenames
+    const name = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.cacheDir, `${name}.json`);
+  }
+
+  private readFromDisk(key: string): CacheEntry | null {
+    try {
+      const filePath = this.filePath(key);
+      if (!fs.existsSync(filePath)) return null;
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry;
+    } catch (error) {
+      logger.warn('Failed to read OCR cache entry from disk', { error, key });
+      return null;
+    }
+  }
+
+  private writeToDisk(key: string, entry: CacheEntry): void {
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(this.filePath(key), JSON.stringify(entry));
+
+      if (++this.writesSincePrune >= PRUNE_INTERVAL) {
+        this.writesSincePrune = 0;
+        this.pruneDisk();
+      }
+    } catch (error) {
+      logger.warn('Failed to write OCR cache entry to disk', { error, key });
+    }
+  }
+
+  /**
+   * Keep the on-disk cache to the same size as the in-memory one, dropping the oldest files
+   */
+  private pruneDisk(): void {
+    const files = fs.readdirSync(this.cacheDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => {
+        const filePath = path.join(this.cacheDir, file);
+        return { filePath, mtime: fs.statSync(filePath).mtimeMs };
+      })
+      .sort((a, b) => b.mtime - a.mtime);
+
+    for (const file of files.slice(this.maxEntries)) {
+      fs.unlinkSync(file.filePath);
+    }
+  }
+
+  /**
+   * Hit/miss counters and size
+   */
+  getStats(): OCRCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      max_entries: this.maxEntries,
+      persistent: this.persistent,
+    };
+  }
+
+  /**
+   * Drop all in-memory entries (disk entries are kept)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export const ocrCache = new OCRCacheService();
@@ -0,0 +1,266 @@
+import fs from 'fs';
+import path from 'path';
+import { OcrConfusion, OcrConfusionConfig } from '../types';
+import confusionConfig from '../config/ocrConfusions.json';
+import { logger } from './logger';
+
+// Cost given to confusions learned from a mistake when none is specified
+const DEFAULT_LEARNED_COST = 0.3;
+
+interface ConfusionRule {
+  from: string;
+  to: string;
+  cost: number;
+}
+
+function escapeClass(chars: string[]): string {
+  return chars.map(char => char.replace(/[\\\]^-]/g, '\\$&')).join('');
+}
+
+/**
+ * Table of characters tesseract commonly confuses (0/O, 1/l/I, 5/S, 8/B, rn/m, ...), used for a
+ * weighted edit distance on rank names and to clean letters out of level numbers.
+ */
+class OcrConfusionService {
+  private confusions: OcrConfusion[] = [];
+  // Case-insensitive rules in both directions, indexed by the last character of `from`
+  private rules: Map<string, ConfusionRule[]> = new Map();
+  // Single characters read in place of a digit (e.g. "O" -> "0")
+  private digitMap: Map<string, string> = new Map();
+  private mangledPattern: RegExp | null = null;
+
+  constructor() {
+    this.setConfusions((confusionConfig as OcrConfusionConfig).confusions);
+  }
+
+  /**
+   * Path of the confusion table on disk, from OCR_CONFUSIONS_PATH (default: src/config/ocrConfusions.json)
+   */
+  getConfigPath(): string {
+    if (process.env.OCR_CONFUSIONS_PATH) {
+      return path.resolve(process.env.OCR_CONFUSIONS_PATH);
+    }
+
+    const sourcePath = path.join(process.cwd(), 'src', 'config', 'ocrConfusions.json');
+    return fs.existsSync(sourcePath) ? sourcePath : path.join(__dirname, '..', 'config', 'ocrConfusions.json');
+  }
+
+  /**
+   * Load the table from disk so entries added since the last build are used
+   */
+  initialize(): void {
+    try {
+      const config = JSON.parse(fs.readFileSync(this.getConfigPath(), 'utf-8')) as OcrConfusionConfig;
+      this.setConfusions(config.confusions);
+      logger.info(`Loaded ${this.confusions.length} OCR confusion(s)`);
+    } catch (error) {
+      logger.warn('Failed to load OCR confusion table, using the bundled one', {
+        error: error instanceof Error ? error.message : String(error),
+        path: this.getConfigPath(),
+      });
+    }
+  }
+
+  private setConfusions(confusions: OcrConfusion[]): void {
+    this.confusions = confusions.filter(c => c.ocr && c.text && c.ocr !== c.text && c.cost >= 0 && c.cost <= 1);
+
+    this.rules = new Map();
+    const addRule = (from: string, to: string, cost: number) => {
+      const key = from[from.length - 1];
+      const rules = this.rules.get(key) || [];
+      const existing = rules.find(rule => rule.from === from && rule.to === to);
+      if (existing) {
+        existing.cost = Math.min(existing.cost, cost);
+      } else {
+        rules.push({ from, to, cost });
+        this.rules.set(key, rules);
+      }
+    };
+
+    this.digitMap = new Map();
+    for (const { ocr, text, cost } of this.confusions) {
+      addRule(ocr.toLowerCase(), text.toLowerCase(), cost);
+      addRule(text.toLowerCase(), ocr.toLowerCase(), cost);
+
+      // Letter/symbol and digit pairs are used to repair numbers
+      if (ocr.length === 1 && text.length === 1) {
+        if (/\d/.test(ocr) && !/\d/.test(text)) this.digitMap.set(text, ocr);
+        if (/\d/.test(text) && !/\d/.test(ocr)) this.digitMap.set(ocr, text);
+      }
+    }
+
+    // A 2-4 character token mixing digits with characters commonly misread for digits (e.g. "6l8")
+    const letters = escapeClass([...this.digitMap.keys()]);
+    this.mangledPattern = letters
+      ? new RegExp(`(?<![A-Za-z0-9])(?=[0-9${letters}]*\\d)(?=[0-9${letters}]*[${letters}])[0-9${letters}]{2,4}(?![A-Za-z0-9])`, 'g')
+      : null;
+  }
+
+  /**
+   * Edit distance where swapping commonly confused characters costs less than other edits
+   */
+  distance(str1: string, str2: string): number {
+    const a = str1.toLowerCase();
+    const b = str2.toLowerCase();
+    const matrix: number[][] = [];
+
+    for (let i = 0; i <= a.length; i++) {
+      matrix[i] = [i];
+    }
+
+    for (let j = 0; j <= b.length; j++) {
+      matrix[0][j] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        let cost = Math.min(
+          matrix[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+
+        for (const rule of this.rules.get(a[i - 1]) || []) {
+          if (
+            i >= rule.from.length &&
+            j >= rule.to.length &&
+            a.endsWith(rule.from, i) &&
+            b.endsWith(rule.to, j)
+          ) {
+            cost = Math.min(cost, matrix[i - rule.from.length][j - rule.to.length] + rule.cost);
+          }
+        }
+
+        matrix[i][j] = cost;
+      }
+    }
+
+    return matrix[a.length][b.length];
+  }
+
+  /**
+   * Similarity score between two strings (0-1, where 1 is identical)
+   */
+  similarity(str1: string, str2: string): number {
+    const maxLength = Math.max(str1.length, str2.length);
+    if (maxLength === 0) return 1;
+    return Math.max(0, 1 - this.distance(str1, str2) / maxLength);
+  }
+
+  /**
+   * Replace characters misread for digits in a token that should be a number (e.g. "6l8" -> "618")
+   */
+  toDigits(token: string): string {
+    return [...token].map(char => this.digitMap.get(char) ?? char).join('');
+  }
+
+  /**
+   * Repair every mangled number in a block of text
+   */
+  cleanNumbers(text: string): string {
+    return this.mangledPattern ? text.replace(this.mangledPattern, token => this.toDigits(token)) : text;
+  }
+
+  /**
+   * First number in the text with characters misread for digits, if any
+   */
+  findMangledNumber(text: string): string | null {
+    if (!this.mangledPattern) return null;
+    this.mangledPattern.lastIndex = 0;
+    const match = this.mangledPattern.exec(text);
+    this.mangledPattern.lastIndex = 0;
+    return match ? match[0] : null;
+  }
+
+  /**
+   * Add (or update the cost of) a confusion and save the table to disk
+   */
+  addConfusion(ocr: string, text: string, cost: number = DEFAULT_LEARNED_COST): OcrConfusion {
+    if (!ocr || !text || ocr === text) {
+      throw new Error('A confusion needs two different strings');
+    }
+    if (!(cost >= 0 && cost <= 1)) {
+      throw new Error('Confusion cost must be between 0 and 1');
+    }
+
+    const confusions = [...this.confusions];
+    // Confusions apply in both directions, so "I read for l" updates an existing "l read for I"
+    const existing = confusions.findIndex(c => (c.ocr === ocr && c.text === text) || (c.ocr === text && c.text === ocr));
+    const confusion: OcrConfusion = { ocr, text, cost };
+    if (existing >= 0) {
+      confusions[existing] = confusion;
+    } else {
+      confusions.push(confusion);
+    }
+
+    this.setConfusions(confusions);
+    this.save();
+    logger.info(`OCR confusion added: "${ocr}" read for "${text}" (cost: ${cost})`);
+    return confusion;
+  }
+
+  /**
+   * Learn confusions from an observed misread, e.g. "Galactlc" for "Galactic" adds l/i.
+   * Short strings (up to 2 characters each) are added as a pair as-is, longer ones are aligned
+   * and each differing character becomes a confusion.
+   */
+  learn(observed: string, expected: string, cost: number = DEFAULT_LEARNED_COST): OcrConfusion[] {
+    if (observed.length <= 2 && expected.length <= 2) {
+      return [this.addConfusion(observed, expected, cost)];
+    }
+
+    return this.alignSubstitutions(observed, expected).map(([ocr, text]) => this.addConfusion(ocr, text, cost));
+  }
+
+  /**
+   * Character substitutions on a plain Levenshtein alignment of two strings
+   */
+  private alignSubstitutions(a: string, b: string): Array<[string, string]> {
+    const matrix: number[][] = [];
+    for (let i = 0; i <= a.length; i++) matrix[i] = [i];
+    for (let j = 0; j <= b.length; j++) matrix[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+
+    const substitutions: Array<[string, string]> = [];
+    let i = a.length;
+    let j = b.length;
+    while (i > 0 && j > 0) {
+      if (matrix[i][j] === matrix[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+        if (a[i - 1] !== b[j - 1] && !substitutions.some(([x, y]) => x === a[i - 1] && y === b[j - 1])) {
+          substitutions.unshift([a[i - 1], b[j - 1]]);
+        }
+        i--;
+        j--;
+      } else if (matrix[i][j] === matrix[i - 1][j] + 1) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+
+    return substitutions;
+  }
+
+  private save(): void {
+    const config: OcrConfusionConfig = { confusions: this.confusions };
+    fs.writeFileSync(this.getConfigPath(), JSON.stringify(config, null, 2) + '\n');
+  }
+
+  /**
+   * All confusions in the table
+   */
+  getConfusions(): OcrConfusion[] {
+    return this.confusions;
+  }
+}
+
+export const ocrConfusionService = new OcrConfusionService();
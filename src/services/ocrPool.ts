@@ -0,0 +1,279 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { OCRPoolStats } from '../types';
+import { logger } from './logger';
+
+export interface OCRPoolOptions {
+  workerCount: number;
+  maxQueueSize: number;
+  jobTimeoutMs: number;
+  /**
+   * Tesseract language codes each worker loads (e.g. ['eng', 'spa'])
+   */
+  languages: string[];
+}
+
+interface PoolJob<T> {
+  task: (worker: Worker) => Promise<T>;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+  enqueuedAt: number;
+}
+
+// Number of recent jobs used for the latency averages
+const LATENCY_WINDOW = 100;
+
+// Delay before retrying a failed replacement worker, doubled on each attempt up to the maximum
+const REPLACE_RETRY_BASE_MS = 1000;
+const REPLACE_RETRY_MAX_MS = 60 * 1000;
+
+/**
+ * Thrown when a job is submitted while the queue is already at capacity
+ */
+export class OCRQueueFullError extends Error {
+  constructor(queueDepth: number, message?: string) {
+    super(message ?? `OCR queue is full (${queueDepth} jobs waiting)`);
+    this.name = 'OCRQueueFullError';
+  }
+}
+
+/**
+ * Thrown when a job does not finish within the configured timeout
+ */
+export class OCRTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`OCR job timed out after ${timeoutMs}ms`);
+    this.name = 'OCRTimeoutError';
+  }
+}
+
+/**
+ * Fixed-size pool of tesseract workers with a bounded FIFO job queue.
+ * Each job gets exclusive use of one worker for its duration.
+ */
+export class OCRWorkerPool {
+  private options: OCRPoolOptions;
+  private idleWorkers: Worker[] = [];
+  private busyWorkers: Set<Worker> = new Set();
+  private queue: PoolJob<any>[] = [];
+  private terminated: boolean = false;
+  // Timed-out workers whose replacement is being created (or retried)
+  private replacingWorkers: number = 0;
+
+  private completedJobs: number = 0;
+  private failedJobs: number = 0;
+  private timedOutJobs: number = 0;
+  private rejectedJobs: number = 0;
+  private waitTimes: number[] = [];
+  private processingTimes: number[] = [];
+
+  constructor(options: OCRPoolOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Create all workers up front so the first uploads don't pay the startup cost
+   */
+  async initialize(): Promise<void> {
+    this.terminated = false;
+    const workers = await Promise.all(
+      Array.from({ length: this.options.workerCount }, () => createWorker(this.options.languages))
+    );
+    this.idleWorkers.push(...workers);
+    logger.info(`OCR worker pool started with ${workers.length} worker(s)`, {
+      max_queue_size: this.options.maxQueueSize,
+      job_timeout_ms: this.options.jobTimeoutMs,
+      languages: this.options.languages,
+    });
+  }
+
+  /**
+   * Run a task on the next available worker
+   */
+  run<T>(task: (worker: Worker) => Promise<T>): Promise<T> {
+    if (this.terminated) {
+      return Promise.reject(new Error('OCR worker pool has been terminated'));
+    }
+
+    if (this.hasNoWorkers()) {
+      this.rejectedJobs++;
+      logger.warn('No OCR worker available, rejecting job', { replacing_workers: this.replacingWorkers });
+      return Promise.reject(this.noWorkersError());
+    }
+
+    if (this.queue.length >= this.options.maxQueueSize) {
+      this.rejectedJobs++;
+      logger.warn('OCR queue full, rejecting job', { queue_depth: this.queue.length });
+      return Promise.reject(new OCRQueueFullError(this.queue.length));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ task, resolve, reject, enqueuedAt: Date.now() });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hand queued jobs to idle workers
+   */
+  private dispatch(): void {
+    while (this.idleWorkers.length > 0 && this.queue.length > 0) {
+      const worker = this.idleWorkers.shift()!;
+      const job = this.queue.shift()!;
+      this.busyWorkers.add(worker);
+      this.execute(worker, job);
+    }
+  }
+
+  private async execute<T>(worker: Worker, job: PoolJob<T>): Promise<void> {
+    const startedAt = Date.now();
+    this.recordLatency(this.waitTimes, startedAt - job.enqueuedAt);
+
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        reject(new OCRTimeoutError(this.options.jobTimeoutMs));
+      }, this.options.jobTimeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([job.task(worker), timeout]);
+      this.completedJobs++;
+      job.resolve(result);
+    } catch (error) {
+      if (timedOut) {
+        this.timedOutJobs++;
+      } else {
+        this.failedJobs++;
+      }
+      job.reject(error);
+    } finally {
+      clearTimeout(timer);
+      this.recordLatency(this.processingTimes, Date.now() - startedAt);
+      this.busyWorkers.delete(worker);
+
+      if (timedOut) {
+        // The timed-out worker may still be busy inside tesseract, so replace it
+        void this.replaceWorker(worker);
+      } else if (!this.terminated) {
+        this.idleWorkers.push(worker);
+      }
+
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Replace a timed-out worker. Creating the replacement is retried with a growing delay, so a
+   * failure doesn't shrink the pool for good.
+   */
+  private async replaceWorker(worker: Worker): Promise<void> {
+    logger.warn('Replacing timed-out OCR worker');
+    worker.terminate().catch((error) => {
+      logger.debug('Failed to terminate timed-out OCR worker', { error });
+    });
+
+    if (this.terminated) return;
+
+    // Counted before the first attempt, so a pool left without workers turns jobs away at once
+    this.replacingWorkers++;
+    this.rejectQueueIfNoWorkers();
+
+    let retrying = false;
+    try {
+      for (let attempt = 1; !this.terminated; attempt++) {
+        try {
+          const replacement = await createWorker(this.options.languages);
+          if (this.terminated) {
+            await replacement.terminate();
+            return;
+          }
+          this.idleWorkers.push(replacement);
+          if (retrying) {
+            logger.info('Replacement OCR worker created', { attempts: attempt });
+          }
+          return;
+        } catch (error) {
+          retrying = true;
+          const delay = Math.min(REPLACE_RETRY_BASE_MS * 2 ** (attempt - 1), REPLACE_RETRY_MAX_MS);
+          logger.error('Failed to create replacement OCR worker, retrying', { error, attempt, retry_in_ms: delay });
+          await new Promise(resolve => setTimeout(resolve, delay).unref());
+        }
+      }
+    } finally {
+      this.replacingWorkers--;
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Whether the pool has lost all its workers and is still replacing them
+   */
+  private hasNoWorkers(): boolean {
+    return this.idleWorkers.length === 0 && this.busyWorkers.size === 0 && this.replacingWorkers > 0;
+  }
+
+  private noWorkersError(): OCRQueueFullError {
+    return new OCRQueueFullError(this.queue.length, 'No OCR worker available while workers are being replaced');
+  }
+
+  /**
+   * Fail queued jobs instead of leaving them waiting for a worker that may take a while to come back
+   */
+  private rejectQueueIfNoWorkers(): void {
+    if (!this.hasNoWorkers()) return;
+
+    for (const job of this.queue.splice(0)) {
+      this.rejectedJobs++;
+      job.reject(this.noWorkersError());
+    }
+  }
+
+  private recordLatency(samples: number[], value: number): void {
+    samples.push(value);
+    if (samples.length > LATENCY_WINDOW) {
+      samples.shift();
+    }
+  }
+
+  private average(samples: number[]): number {
+    if (samples.length === 0) return 0;
+    return Math.round(samples.reduce((sum, value) => sum + value, 0) / samples.length);
+  }
+
+  /**
+   * Current queue depth and latency figures
+   */
+  getStats(): OCRPoolStats {
+    return {
+      workers: this.idleWorkers.length + this.busyWorkers.size,
+      busy_workers: this.busyWorkers.size,
+      queue_depth: this.queue.length,
+      max_queue_size: this.options.maxQueueSize,
+      completed_jobs: this.completedJobs,
+      failed_jobs: this.failedJobs,
+      timed_out_jobs: this.timedOutJobs,
+      rejected_jobs: this.rejectedJobs,
+      average_wait_ms: this.average(this.waitTimes),
+      average_processing_ms: this.average(this.processingTimes),
+    };
+  }
+
+  /**
+   * Reject queued jobs and terminate every worker
+   */
+  async terminate(): Promise<void> {
+    this.terminated = true;
+
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error('OCR worker pool has been terminated'));
+    }
+
+    const workers = [...this.idleWorkers, ...this.busyWorkers];
+    this.idleWorkers = [];
+    this.busyWorkers.clear();
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+}
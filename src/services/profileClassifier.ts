@@ -0,0 +1,73 @@
+import { ProfileClassification, ProfileClassifierConfig, ProfileIndicatorMatch } from '../types';
+import classifierConfig from '../config/profileClassifier.json';
+import { languageService, KeywordIndicator } from './languages';
+import { logger } from './logger';
+
+/**
+ * Scores OCR text as a profile screenshot. Each indicator from config/languages.json that appears
+ * adds its weight from config/profileClassifier.json (positive for profile screen text, negative
+ * for main menu text); the text is a profile when the total reaches the threshold.
+ */
+class ProfileClassifierService {
+  private config: ProfileClassifierConfig;
+
+  constructor() {
+    this.config = classifierConfig as ProfileClassifierConfig;
+  }
+
+  /**
+   * Minimum score for a profile screenshot, from PROFILE_SCORE_THRESHOLD or the config
+   */
+  getThreshold(): number {
+    const threshold = parseFloat(process.env.PROFILE_SCORE_THRESHOLD || '');
+    return Number.isFinite(threshold) ? threshold : this.config.threshold;
+  }
+
+  /**
+   * Weight of an indicator. Indicators without a configured weight count +1 (profile) or -1 (main menu).
+   */
+  private getWeight(id: string, kind: ProfileIndicatorMatch['kind']): number {
+    return this.config.weights[id] ?? (kind === 'profile' ? 1 : -1);
+  }
+
+  /**
+   * Score OCR text. Each indicator ID counts once, however many languages or places it matched in.
+   */
+  classify(ocrText: string): ProfileClassification {
+    // Keyword tables are in plain ASCII, so compare against accent-folded text
+    const text = languageService.fold(ocrText);
+    const matched = new Map<string, ProfileIndicatorMatch>();
+
+    const check = (indicators: KeywordIndicator[], kind: ProfileIndicatorMatch['kind']) => {
+      for (const indicator of indicators) {
+        if (matched.has(indicator.id)) continue;
+        const match = text.match(indicator.pattern);
+        if (match) {
+          matched.set(indicator.id, {
+            id: indicator.id,
+            language: indicator.language,
+            kind,
+            weight: this.getWeight(indicator.id, kind),
+            text: match[0],
+          });
+        }
+      }
+    };
+
+    check(languageService.getProfileIndicators(), 'profile');
+    check(languageService.getMainMenuIndicators(), 'main_menu');
+
+    const matches = [...matched.values()];
+    const score = matches.reduce((sum, match) => sum + match.weight, 0);
+    const threshold = this.getThreshold();
+
+    const result: ProfileClassification = { is_profile: score >= threshold, score, threshold, matched: matches };
+    logger.debug(`Profile classifier score: ${score} (threshold: ${threshold})`, {
+      matched: matches.map(match => `${match.id}:${match.weight}`),
+    });
+
+    return result;
+  }
+}
+
+export const profileClassifier = new ProfileClassifierService();
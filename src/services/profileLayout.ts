@@ -0,0 +1,48 @@
+import { ProfileLayout, RegionBox } from '../types';
+import layoutsConfig from '../config/layouts.json';
+import { logger } from './logger';
+
+class ProfileLayoutService {
+  private layouts: ProfileLayout[];
+
+  constructor() {
+    this.layouts = layoutsConfig as ProfileLayout[];
+  }
+
+  /**
+   * Pick the layout template matching the screenshot's aspect ratio.
+   * The game only runs in landscape, so portrait images never match.
+   */
+  selectLayout(width: number, height: number): ProfileLayout | null {
+    if (width <= 0 || height <= 0) return null;
+
+    const aspect = width / height;
+    const layout = this.layouts.find(l => aspect >= l.aspect_min && aspect < l.aspect_max) || null;
+
+    logger.debug(`Profile layout for ${width}x${height} (aspect ${aspect.toFixed(2)}): ${layout?.name ?? 'none'}`);
+    return layout;
+  }
+
+  /**
+   * Convert a relative region box to a pixel rectangle, clamped to the image bounds
+   */
+  toRectangle(box: RegionBox, width: number, height: number): { left: number; top: number; width: number; height: number } {
+    const left = Math.min(width - 1, Math.max(0, Math.round(box.left * width)));
+    const top = Math.min(height - 1, Math.max(0, Math.round(box.top * height)));
+    return {
+      left,
+      top,
+      width: Math.max(1, Math.min(width - left, Math.round(box.width * width))),
+      height: Math.max(1, Math.min(height - top, Math.round(box.height * height))),
+    };
+  }
+
+  /**
+   * Get all layout templates
+   */
+  getAllLayouts(): ProfileLayout[] {
+    return this.layouts;
+  }
+}
+
+export const profileLayoutService = new ProfileLayoutService();
@@ -0,0 +1,135 @@
+import { MatchedRank, OCRResult, ProfileField, ProfileRegions, ProfileSnapshot, ProfileStatName } from '../types';
+import { languageService } from './languages';
+import { ocrConfusionService } from './ocrConfusions';
+import { logger } from './logger';
+
+// Unique IDs are 10 digits, shown as 123-456-789-0
+const UNIQUE_ID_PATTERN = /(\d{3})[\s\-.]*(\d{3})[\s\-.]*(\d{3})[\s\-.]*(\d)(?!\d)/;
+
+// How far past the "Unique ID" label to look for the ID in full-page text
+const UNIQUE_ID_SEARCH_LENGTH = 40;
+
+const MAX_USERNAME_LENGTH = 32;
+
+/**
+ * Reads the in-game username, Unique ID, level, rank and player stats from a profile screenshot
+ */
+class ProfileParser {
+  private uniqueIdLabelPattern: RegExp;
+  private statPatterns: Record<ProfileStatName, RegExp>;
+
+  constructor() {
+    const statLabel = (stat: ProfileStatName) => `${languageService.getStatLabelSource(stat)}\\s*[:\\-]?\\s*`;
+
+    this.uniqueIdLabelPattern = new RegExp(`${languageService.getUniqueIdLabelSource()}\\s*[:\\-]?\\s*`, 'i');
+    this.statPatterns = {
+      vip_level: new RegExp(`${statLabel('vip_level')}(\\d{1,2})(?!\\d)`, 'i'),
+      // Thousands may be grouped with a comma or dot (1,234)
+      games_won: new RegExp(`${statLabel('games_won')}(\\d{1,3}(?:[,.]\\d{3})+|\\d+)`, 'i'),
+      win_percentage: new RegExp(`${statLabel('win_percentage')}(\\d{1,3}(?:[.,]\\d{1,2})?)\\s*%?`, 'i'),
+    };
+  }
+
+  /**
+   * Build a snapshot of the profile from the full-page OCR result, the region OCR (if any) and the matched rank
+   */
+  parse(ocr: OCRResult, regions: ProfileRegions | undefined, match: MatchedRank | null): ProfileSnapshot {
+    const text = ocrConfusionService.cleanNumbers(languageService.fold(ocr.text));
+
+    const snapshot: ProfileSnapshot = {
+      username: this.parseUsername(regions),
+      unique_id: this.parseUniqueId(ocr, text, regions),
+      level: match?.level_detected !== undefined
+        ? { value: match.level_detected, confidence: match.word_confidence ?? match.confidence }
+        : null,
+      rank: match ? { value: match.rank_name, confidence: match.confidence } : null,
+      stats: {
+        vip_level: this.parseStat(ocr, text, 'vip_level', value => value >= 0 && value <= 99),
+        games_won: this.parseStat(ocr, text, 'games_won', value => value >= 0),
+        win_percentage: this.parseStat(ocr, text, 'win_percentage', value => value >= 0 && value <= 100),
+      },
+    };
+
+    logger.debug('Parsed profile snapshot', {
+      username: snapshot.username?.value,
+      unique_id: snapshot.unique_id?.value,
+      stats: Object.fromEntries(Object.entries(snapshot.stats).map(([stat, field]) => [stat, field?.value ?? null])),
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Format a Unique ID as 123-456-789-0, or return null if the text doesn't contain one
+   */
+  formatUniqueId(text: string): string | null {
+    const match = ocrConfusionService.cleanNumbers(text).match(UNIQUE_ID_PATTERN);
+    return match ? `${match[1]}-${match[2]}-${match[3]}-${match[4]}` : null;
+  }
+
+  private parseUsername(regions?: ProfileRegions): ProfileField<string> | null {
+    const region = regions?.username;
+    if (!region) return null;
+
+    const line = region.text.split('\n').map(l => l.replace(/\s+/g, ' ').trim()).find(l => l.length > 0);
+    if (!line || line.length > MAX_USERNAME_LENGTH || this.uniqueIdLabelPattern.test(languageService.fold(line))) {
+      return null;
+    }
+
+    return { value: line, confidence: region.confidence / 100 };
+  }
+
+  private parseUniqueId(ocr: OCRResult, text: string, regions?: ProfileRegions): ProfileField<string> | null {
+    const region = regions?.unique_id;
+    const fromRegion = region ? this.formatUniqueId(region.text) : null;
+    if (region && fromRegion) {
+      return { value: fromRegion, confidence: region.confidence / 100 };
+    }
+
+    // Fall back to the text just after the "Unique ID" label on the full page
+    const label = text.match(this.uniqueIdLabelPattern);
+    if (!label || label.index === undefined) return null;
+
+    const after = text.substring(label.index + label[0].length, label.index + label[0].length + UNIQUE_ID_SEARCH_LENGTH);
+    const match = after.match(UNIQUE_ID_PATTERN);
+    if (!match) return null;
+
+    return {
+      value: `${match[1]}-${match[2]}-${match[3]}-${match[4]}`,
+      confidence: this.fieldConfidence(ocr, match[0]),
+    };
+  }
+
+  private parseStat(
+    ocr: OCRResult,
+    text: string,
+    stat: ProfileStatName,
+    isValid: (value: number) => boolean
+  ): ProfileField<number> | null {
+    const match = text.match(this.statPatterns[stat]);
+    if (!match) return null;
+
+    const value = stat === 'win_percentage'
+      ? parseFloat(match[1].replace(',', '.'))
+      : parseInt(match[1].replace(/[,.]/g, ''), 10);
+    if (!Number.isFinite(value) || !isValid(value)) return null;
+
+    return { value, confidence: this.fieldConfidence(ocr, match[1]) };
+  }
+
+  /**
+   * Average confidence of the words a value was read from, or the page confidence without word data
+   */
+  private fieldConfidence(ocr: OCRResult, fragment: string): number {
+    const tokens = new Set(fragment.split(/\s+/).filter(token => token.length > 0));
+    const words = (ocr.lines?.flatMap(line => line.words) ?? ocr.words ?? [])
+      .filter(word => tokens.has(ocrConfusionService.cleanNumbers(word.text).replace(/%$/, '')));
+
+    const confidence = words.length > 0
+      ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+      : ocr.confidence;
+    return confidence / 100;
+  }
+}
+
+export const profileParser = new ProfileParser();
@@ -0,0 +1,253 @@
+import fs from 'fs';
+import path from 'path';
+import { RankConfig, RankConfigReloadResult } from '../types';
+import ranksConfig from '../config/ranks.json';
+import { logger } from './logger';
+
+// Discord snowflakes are 17-20 digit integers
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+
+// Editors often write a file in several steps, so wait for changes to settle before reloading
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * One validated rank table. Replaced as a whole on reload so readers never see a mix of two tables.
+ */
+interface RankTable {
+  ranks: RankConfig[];
+  loadedAt: Date;
+  source: string;
+}
+
+/**
+ * Loads, validates and hot-reloads the rank table (src/config/ranks.json)
+ */
+class RankConfigService {
+  private table: RankTable;
+  // Role IDs from every table loaded since startup, so roles retired by a reload are still cleaned up
+  private knownRoleIds: Set<string> = new Set();
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // The bundled table is always available; problems are reported by report() at startup
+    const ranks = ranksConfig as RankConfig[];
+    this.table = this.createTable(ranks, 'bundled');
+  }
+
+  /**
+   * Path of the rank table on disk, from RANKS_CONFIG_PATH (default: src/config/ranks.json)
+   */
+  getConfigPath(): string {
+    if (process.env.RANKS_CONFIG_PATH) {
+      return path.resolve(process.env.RANKS_CONFIG_PATH);
+    }
+
+    const sourcePath = path.join(process.cwd(), 'src', 'config', 'ranks.json');
+    return fs.existsSync(sourcePath) ? sourcePath : path.join(__dirname, '..', 'config', 'ranks.json');
+  }
+
+  private createTable(ranks: RankConfig[], source: string): RankTable {
+    ranks.forEach(rank => this.knownRoleIds.add(rank.role_id));
+    return { ranks: Object.freeze([...ranks]) as RankConfig[], loadedAt: new Date(), source };
+  }
+
+  /**
+   * Check a rank table: every entry well-formed, valid snowflake role IDs, unique names and
+   * role IDs, and level ranges in order starting at 1 with no gaps or overlaps.
+   * Returns a list of problems (empty when the table is valid).
+   */
+  validate(data: unknown): string[] {
+    if (!Array.isArray(data)) {
+      return ['Rank config must be an array of ranks'];
+    }
+    if (data.length === 0) {
+      return ['Rank config has no ranks'];
+    }
+
+    const errors: string[] = [];
+    const names = new Map<string, number>();
+    const roleIds = new Map<string, number>();
+    let levelsValid = true;
+
+    data.forEach((entry, index) => {
+      const label = `Rank #${index + 1}${entry && typeof entry.rank_name === 'string' ? ` (${entry.rank_name})` : ''}`;
+
+      if (!entry || typeof entry !== 'object') {
+        errors.push(`${label}: must be an object`);
+        levelsValid = false;
+        return;
+      }
+
+      if (typeof entry.rank_name !== 'string' || !entry.rank_name.trim()) {
+        errors.push(`${label}: rank_name is missing`);
+      } else {
+        const key = entry.rank_name.trim().toLowerCase();
+        if (names.has(key)) {
+          errors.push(`${label}: duplicate rank_name (also rank #${names.get(key)! + 1})`);
+        }
+        names.set(key, index);
+      }
+
+      if (typeof entry.role_id !== 'string' || !SNOWFLAKE_PATTERN.test(entry.role_id)) {
+        errors.push(`${label}: role_id "${entry.role_id}" is not a valid Discord ID`);
+      } else {
+        if (roleIds.has(entry.role_id)) {
+          errors.push(`${label}: duplicate role_id (also rank #${roleIds.get(entry.role_id)! + 1})`);
+        }
+        roleIds.set(entry.role_id, index);
+      }
+
+      if (!Number.isInteger(entry.level_min) || !Number.isInteger(entry.level_max)) {
+        errors.push(`${label}: level_min and level_max must be whole numbers`);
+        levelsValid = false;
+      } else if (entry.level_min > entry.level_max) {
+        errors.push(`${label}: level_min ${entry.level_min} is greater than level_max ${entry.level_max}`);
+        levelsValid = false;
+      }
+    });
+
+    if (!levelsValid) {
+      return errors;
+    }
+
+    // Ranges must run in order from level 1 with each rank starting where the previous one ended
+    const ranks = data as RankConfig[];
+    if (ranks[0].level_min !== 1) {
+      errors.push(`${ranks[0].rank_name}: first rank should start at level 1, not ${ranks[0].level_min}`);
+    }
+    for (let i = 1; i < ranks.length; i++) {
+      const previous = ranks[i - 1];
+      const current = ranks[i];
+      if (current.level_min < previous.level_min) {
+        errors.push(`${current.rank_name}: listed after ${previous.rank_name} but starts at a lower level (${current.level_min})`);
+      } else if (current.level_min <= previous.level_max) {
+        errors.push(`${current.rank_name}: levels ${current.level_min}-${Math.min(current.level_max, previous.level_max)} overlap with ${previous.rank_name}`);
+      } else if (current.level_min > previous.level_max + 1) {
+        errors.push(`${current.rank_name}: gap between ${previous.rank_name} (ends at ${previous.level_max}) and ${current.rank_name} (starts at ${current.level_min})`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Load the table from disk, report problems with it and start watching it for changes
+   * (unless RANKS_CONFIG_WATCH=false). Falls back to the bundled table if the file is invalid.
+   */
+  initialize(): void {
+    if (!this.reload().success) {
+      logger.warn('Using the rank config bundled with the build');
+    }
+    this.report();
+
+    if (process.env.RANKS_CONFIG_WATCH !== 'false') {
+      this.watch();
+    }
+  }
+
+  /**
+   * Log a summary of the active table and any problems with it (called at startup)
+   */
+  report(): string[] {
+    const errors = this.validate(this.table.ranks);
+    const { ranks } = this.table;
+
+    if (errors.length > 0) {
+      logger.error(`Rank config has ${errors.length} problem(s)`, { errors, path: this.getConfigPath() });
+    } else {
+      logger.info(`Rank config loaded: ${ranks.length} ranks, levels ${ranks[0].level_min}-${ranks[ranks.length - 1].level_max}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Re-read the rank table from disk. The new table only replaces the active one if it is valid.
+   */
+  reload(): RankConfigReloadResult {
+    const configPath = this.getConfigPath();
+    let data: unknown;
+
+    try {
+      data = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error) {
+      const message = `Failed to read ${configPath}: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error('Rank config reload failed', { error: message });
+      return { success: false, errors: [message], rank_count: this.table.ranks.length };
+    }
+
+    const errors = this.validate(data);
+    if (errors.length > 0) {
+      logger.error('Rank config reload rejected, keeping current ranks', { errors, path: configPath });
+      return { success: false, errors, rank_count: this.table.ranks.length };
+    }
+
+    this.table = this.createTable(data as RankConfig[], configPath);
+    logger.info(`Rank config reloaded: ${this.table.ranks.length} ranks`, { path: configPath });
+    return { success: true, errors: [], rank_count: this.table.ranks.length };
+  }
+
+  /**
+   * Reload automatically when the rank table changes on disk
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    const configPath = this.getConfigPath();
+    try {
+      // Watch the directory rather than the file, since editors often replace the file on save
+      this.watcher = fs.watch(path.dirname(configPath), (_event, filename) => {
+        if (filename && filename.toString() !== path.basename(configPath)) return;
+        if (this.reloadTimer) {
+          clearTimeout(this.reloadTimer);
+        }
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          logger.info('Rank config changed on disk, reloading');
+          this.reload();
+        }, WATCH_DEBOUNCE_MS);
+      });
+      logger.info(`Watching rank config for changes: ${configPath}`);
+    } catch (error) {
+      logger.warn('Failed to watch rank config', { error, path: configPath });
+    }
+  }
+
+  /**
+   * Stop watching the rank table
+   */
+  stopWatching(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Active ranks, ordered by level
+   */
+  getRanks(): RankConfig[] {
+    return this.table.ranks;
+  }
+
+  /**
+   * Whether a role is a rank role, in the active table or one loaded earlier
+   */
+  isRankRole(roleId: string): boolean {
+    return this.knownRoleIds.has(roleId);
+  }
+
+  /**
+   * When and from where the active table was loaded
+   */
+  getInfo(): { loaded_at: Date; source: string; rank_count: number } {
+    return { loaded_at: this.table.loadedAt, source: this.table.source, rank_count: this.table.ranks.length };
+  }
+}
+
+export const rankConfigService = new RankConfigService();
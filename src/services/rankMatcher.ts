@@ -1,60 +1,68 @@
-import { RankConfig, MatchedRank } from '../types';
-import ranksConfig from '../config/ranks.json';
+import {
+  RankConfig,
+  MatchedRank,
+  RankCandidate,
+  LevelEvidence,
+  LevelPattern,
+  ProfileRegions,
+  OCRResult,
+  OCRLine,
+  OCRWord,
+} from '../types';
+import { rankConfigService } from './rankConfig';
+import { languageService } from './languages';
+import { ocrConfusionService } from './ocrConfusions';
 import { logger } from './logger';
 
-class RankMatcherService {
-  private ranks: RankConfig[];
-
-  constructor() {
-    this.ranks = ranksConfig as RankConfig[];
-  }
+// Minimum name similarity for a rank name match
+const NAME_THRESHOLD = 0.6;
 
-  /**
-   * Calculate Levenshtein distance between two strings
-   */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = [];
+// Candidates closer than this in confidence are treated as ambiguous
+const AMBIGUITY_MARGIN = 0.1;
 
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
-    }
+interface LevelMatch {
+  level: number;
+  pattern: LevelPattern;
+  text: string;
+}
 
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
-    }
+interface RankNameScore {
+  rank: RankConfig;
+  similarity: number;
+  kind: 'exact' | 'substring' | 'fuzzy';
+}
 
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
+class RankMatcherService {
+  // Label patterns built from the keyword tables of every supported language
+  private levelProgressPatterns: RegExp[];
+  private explicitLevelPatterns: RegExp[];
+  private rankPattern: RegExp;
+  private levelLabelPattern: RegExp;
 
-    return matrix[str2.length][str1.length];
+  constructor() {
+    this.levelProgressPatterns = languageService.getLevelProgressPatterns();
+    this.explicitLevelPatterns = [
+      new RegExp(`${languageService.getLevelProgressSource()}\\s*[:\\-]?\\s*(\\d+)`, 'i'),
+      new RegExp(`${languageService.getLevelLabelSource()}\\s*[:\\-]?\\s*(\\d+)`, 'i'),
+    ];
+    // Rank name words may contain digits misread for letters (e.g. "0verlord"), but not bare numbers
+    const nameWord = '[a-z0-9]*[a-z][a-z0-9]*';
+    this.rankPattern = new RegExp(`${languageService.getRankLabelSource()}\\s*[:\\-]?\\s*(${nameWord}(?:\\s+${nameWord})*)`, 'i');
+    this.levelLabelPattern = new RegExp(`^${languageService.getLevelLabelSource()}$`, 'i');
   }
 
   /**
-   * Calculate similarity score between two strings (0-1, where 1 is identical)
+   * The active rank table. Read on each use so a reload takes effect immediately.
    */
-  private similarity(str1: string, str2: string): number {
-    const maxLength = Math.max(str1.length, str2.length);
-    if (maxLength === 0) return 1;
-    const distance = this.levenshteinDistance(str1, str2);
-    return 1 - distance / maxLength;
+  private get ranks(): RankConfig[] {
+    return rankConfigService.getRanks();
   }
 
   /**
    * Normalize text by removing OCR noise and common misreads
    */
   private normalizeText(text: string): string {
-    return text
+    return languageService.fold(text)
       .toLowerCase()
       .replace(/[^\w\s]/g, '') // Remove special characters
       .replace(/\s+/g, ' ') // Normalize whitespace
@@ -62,57 +70,60 @@ class RankMatcherService {
   }
 
   /**
-   * Extract level number from text - ONLY from Level Progress area
-   * Ignores: Player Stats, VIP, Trophies, Username, Unique ID, Rings, Global Collection Power
+   * Find the Level Progress area in full-page OCR text
+   * Returns the text from "Level progress" onwards (next 200 characters), or null if not found
    */
-  private extractLevel(text: string): number | null {
-    const foundLevels: Array<{ level: number; priority: number; context: string }> = [];
-
-    // ONLY look in the Level Progress area - find the level progress section first
+  private findLevelProgressArea(text: string): string | null {
     // OCR might read it as "Level progress", "evel progre", "level progre", "evel progre bhi", etc.
-    // Be flexible with OCR errors and truncation
-    const levelProgressPattern = /(?:level|evel|lvl)\s*progre(?:ss|s|bhi|bh)?/i;
-    let levelProgressMatch = text.match(levelProgressPattern);
-    
-    // If not found, try more flexible patterns
-    if (!levelProgressMatch) {
-      const altPatterns = [
-        /(?:level|evel|lvl)\s*prog/i,
-        /evel\s*progre/i,
-        /level\s*progre/i,
-      ];
-      for (const pattern of altPatterns) {
-        levelProgressMatch = text.match(pattern);
-        if (levelProgressMatch) {
-          logger.debug(`Found alternative level progress pattern: ${levelProgressMatch[0]}`);
-          break;
-        }
+    // Be flexible with OCR errors and truncation. Patterns for each language are tried in turn,
+    // most specific first (see config/languages.json).
+    text = languageService.fold(text);
+    let levelProgressMatch: RegExpMatchArray | null = null;
+    for (const pattern of this.levelProgressPatterns) {
+      levelProgressMatch = text.match(pattern);
+      if (levelProgressMatch) {
+        logger.debug(`Found level progress pattern: ${levelProgressMatch[0]}`);
+        break;
       }
     }
 
-    // Priority 1: Numbers in Level Progress area (highest priority)
-    // Look for patterns like "Level progress 618" or numbers near "level progress"
-    let searchText = text;
-    let levelProgressIndex = -1;
-    
-    if (levelProgressMatch && levelProgressMatch.index !== undefined) {
-      levelProgressIndex = levelProgressMatch.index;
-      // Extract text around level progress (next 200 characters should contain the level and rank)
-      const startIndex = Math.max(0, levelProgressIndex);
-      const endIndex = Math.min(text.length, levelProgressIndex + levelProgressMatch[0].length + 200);
-      searchText = text.substring(startIndex, endIndex);
-      logger.debug(`Found level progress area: ${searchText.substring(0, 150)}`);
-    } else {
+    if (!levelProgressMatch || levelProgressMatch.index === undefined) {
+      return null;
+    }
+
+    // Extract text around level progress (next 200 characters should contain the level and rank)
+    const startIndex = Math.max(0, levelProgressMatch.index);
+    const endIndex = Math.min(text.length, levelProgressMatch.index + levelProgressMatch[0].length + 200);
+    const area = text.substring(startIndex, endIndex);
+    logger.debug(`Found level progress area: ${area.substring(0, 150)}`);
+    return area;
+  }
+
+  /**
+   * Extract level number from text - ONLY from Level Progress area
+   * Ignores: Player Stats, VIP, Trophies, Username, Unique ID, Rings, Global Collection Power
+   */
+  private extractLevel(text: string): LevelMatch | null {
+    // ONLY look in the Level Progress area - find the level progress section first
+    const levelProgressArea = this.findLevelProgressArea(text);
+    if (!levelProgressArea) {
       logger.debug('Level progress pattern not found, will search full text (fallback)');
     }
 
-    // Look for explicit "Level" patterns in the level progress area
-    const explicitLevelPatterns = [
-      /(?:level|evel|lvl)\s*progress\s*[:\-]?\s*(\d+)/i,
-      /(?:level|evel|lvl)\s*[:\-]?\s*(\d+)/i,
-    ];
+    return this.extractLevelFromArea(levelProgressArea ?? text, levelProgressArea !== null);
+  }
+
+  /**
+   * Extract level number from a block of text
+   * Standalone numbers are only considered when the text is known to be the Level Progress area
+   */
+  private extractLevelFromArea(searchText: string, isLevelProgressArea: boolean): LevelMatch | null {
+    const foundLevels: Array<{ level: number; priority: number; context: string }> = [];
+    // Repair digits misread as letters (e.g. "6l8") before looking for numbers
+    searchText = ocrConfusionService.cleanNumbers(languageService.fold(searchText));
 
-    for (const pattern of explicitLevelPatterns) {
+    // Look for explicit "Level" patterns in the level progress area
+    for (const pattern of this.explicitLevelPatterns) {
       const matches = searchText.matchAll(new RegExp(pattern, 'gi'));
       for (const match of matches) {
         const level = parseInt(match[1], 10);
@@ -124,7 +135,7 @@ class RankMatcherService {
 
     // Priority 2: Look for standalone numbers ONLY in the Level Progress area
     // If we found the level progress section, only look there
-    if (levelProgressIndex >= 0) {
+    if (isLevelProgressArea) {
       // First, exclude stat patterns even within the Level Progress area
       const statPatternsInArea = [
         /games\s+won\s+[\d\s]+\s+of/i,
@@ -215,57 +226,21 @@ class RankMatcherService {
       });
       
       logger.debug(`Level extraction candidates: ${JSON.stringify(foundLevels.slice(0, 3))}`);
-      return foundLevels[0].level;
+      const [best] = foundLevels;
+      return { level: best.level, pattern: best.priority === 10 ? 'label_text' : 'standalone_number', text: best.context };
     }
 
     return null;
   }
 
   /**
-   * Extract rank name from text - ONLY from Level Progress area
-   * Looks for patterns like "Rank: Galactic Overlord" in the Level Progress section
+   * Score every rank name against a block of text (Level Progress area or rank label region)
+   * Looks for patterns like "Rank: Galactic Overlord" and compares only the name part when found
    */
-  private extractRankName(text: string): { rank: RankConfig | null; confidence: number } {
-    let bestMatch: RankConfig | null = null;
-    let bestConfidence = 0;
-    const threshold = 0.6; // Minimum similarity threshold
-
-    // ONLY look in the Level Progress area - find the level progress section first
-    // OCR might read it as "Level progress", "evel progre", "level progre", "evel progre bhi", etc.
-    const levelProgressPattern = /(?:level|evel|lvl)\s*progre(?:ss|s|bhi|bh)?/i;
-    let levelProgressMatch = text.match(levelProgressPattern);
-    
-    // If not found, try more flexible patterns
-    if (!levelProgressMatch) {
-      const altPatterns = [
-        /(?:level|evel|lvl)\s*prog/i,
-        /evel\s*progre/i,
-        /level\s*progre/i,
-      ];
-      for (const pattern of altPatterns) {
-        levelProgressMatch = text.match(pattern);
-        if (levelProgressMatch) {
-          logger.debug(`Found alternative level progress pattern for rank: ${levelProgressMatch[0]}`);
-          break;
-        }
-      }
-    }
-    
-    let searchText = text;
-    if (levelProgressMatch && levelProgressMatch.index !== undefined) {
-      // Extract text around level progress (should contain both Level and Rank)
-      const startIndex = Math.max(0, levelProgressMatch.index);
-      const endIndex = Math.min(text.length, levelProgressMatch.index + levelProgressMatch[0].length + 200);
-      searchText = text.substring(startIndex, endIndex);
-      logger.debug(`Searching for rank in level progress area: ${searchText.substring(0, 150)}`);
-    } else {
-      logger.debug('Level progress pattern not found for rank extraction, using full text');
-    }
-
+  private scoreRankNames(searchText: string): { text: string; scores: RankNameScore[] } {
     // First, try to find "Rank:" pattern in the Level Progress area
-    const rankPattern = /rank\s*[:\-]?\s*([a-z\s]+)/i;
-    const rankMatch = searchText.match(rankPattern);
-    let rankTextToSearch = this.normalizeText(searchText);
+    const rankMatch = languageService.fold(searchText).match(this.rankPattern);
+    let rankTextToSearch: string;
     
     if (rankMatch && rankMatch[1]) {
       // Found "Rank: X" pattern, focus on the rank name part
@@ -276,37 +251,84 @@ class RankMatcherService {
       rankTextToSearch = this.normalizeText(searchText);
     }
 
-    for (const rank of this.ranks) {
+    const scores = this.ranks.map((rank): RankNameScore => {
       const normalizedRankName = this.normalizeText(rank.rank_name);
-      
-      // Check for exact match ONLY in the level progress area
+
       if (rankTextToSearch.includes(normalizedRankName)) {
-        logger.debug(`Exact match found in level progress area: ${rank.rank_name}`);
-        return { rank, confidence: 1.0 };
+        return { rank, similarity: 1.0, kind: 'exact' };
       }
 
       // Check if rank name is contained in the rank section (after "Rank:")
-      if (normalizedRankName.includes(rankTextToSearch) || rankTextToSearch.includes(normalizedRankName)) {
-        logger.debug(`Substring match found in level progress area: ${rank.rank_name}`);
-        return { rank, confidence: 0.95 };
+      if (normalizedRankName.includes(rankTextToSearch)) {
+        return { rank, similarity: 0.95, kind: 'substring' };
+      }
+
+      return { rank, similarity: ocrConfusionService.similarity(rankTextToSearch, normalizedRankName), kind: 'fuzzy' };
+    });
+
+    // A rank name inside a longer one that was also found (Emperor in High Emperor) isn't an exact match
+    const exactNames = scores.filter(score => score.kind === 'exact').map(score => this.normalizeText(score.rank.rank_name));
+    const resolved = scores.map((score): RankNameScore => {
+      const normalizedRankName = this.normalizeText(score.rank.rank_name);
+      if (score.kind !== 'exact' || !exactNames.some(name => name !== normalizedRankName && name.includes(normalizedRankName))) {
+        return score;
+      }
+      return { rank: score.rank, similarity: ocrConfusionService.similarity(rankTextToSearch, normalizedRankName), kind: 'fuzzy' };
+    });
+
+    return { text: rankTextToSearch, scores: resolved };
+  }
+
+  /**
+   * Pick the rank name match from a set of scores: the first exact or substring match in
+   * rank order, otherwise the most similar name above the threshold
+   */
+  private pickRankName(scores: RankNameScore[]): RankNameScore | null {
+    const direct = scores.find(score => score.kind !== 'fuzzy');
+    if (direct) {
+      logger.debug(`${direct.kind === 'exact' ? 'Exact' : 'Substring'} match found in level progress area: ${direct.rank.rank_name}`);
+      return direct;
+    }
+
+    let best: RankNameScore | null = null;
+    for (const score of scores) {
+      if (!best || score.similarity > best.similarity) {
+        best = score;
       }
+    }
 
-      // Fuzzy match ONLY on the level progress area text
-      const similarityScore = this.similarity(rankTextToSearch, normalizedRankName);
+    if (best && best.similarity >= NAME_THRESHOLD) {
+      logger.debug(`Fuzzy match found: ${best.rank.rank_name} (confidence: ${best.similarity})`);
+      return best;
+    }
 
-      if (similarityScore > bestConfidence) {
-        bestConfidence = similarityScore;
-        bestMatch = rank;
+    logger.debug(`No rank match found (best confidence: ${best?.similarity ?? 0})`);
+    return null;
+  }
+
+  /**
+   * Score rank names from labelled region OCR (rank label, then the whole panel), falling back
+   * to the Level Progress area of the full-page text
+   */
+  private findRankName(ocrText: string, regions?: ProfileRegions): { text: string; scores: RankNameScore[]; match: RankNameScore | null } {
+    for (const region of [regions?.rank, regions?.level_progress]) {
+      if (!region || !region.text.trim()) continue;
+      const scored = this.scoreRankNames(region.text);
+      const match = this.pickRankName(scored.scores);
+      if (match) {
+        logger.debug(`Extracted rank from region: ${match.rank.rank_name}`);
+        return { ...scored, match };
       }
     }
 
-    if (bestConfidence >= threshold) {
-      logger.debug(`Fuzzy match found: ${bestMatch?.rank_name} (confidence: ${bestConfidence})`);
-      return { rank: bestMatch, confidence: bestConfidence };
+    // ONLY look in the Level Progress area - find the level progress section first
+    const levelProgressArea = this.findLevelProgressArea(ocrText);
+    if (!levelProgressArea) {
+      logger.debug('Level progress pattern not found for rank extraction, using full text');
     }
 
-    logger.debug(`No rank match found (best confidence: ${bestConfidence})`);
-    return { rank: null, confidence: 0 };
+    const scored = this.scoreRankNames(levelProgressArea ?? ocrText);
+    return { ...scored, match: this.pickRankName(scored.scores) };
   }
 
   /**
@@ -322,67 +344,322 @@ class RankMatcherService {
   }
 
   /**
-   * Match rank from OCR text (dual detection: level + rank name)
+   * Extract level from labelled region OCR (Level Progress panel read on its own)
+   */
+  private extractLevelFromRegions(regions: ProfileRegions): LevelMatch | null {
+    if (!regions.level_progress) return null;
+    return this.extractLevelFromArea(regions.level_progress.text, true);
+  }
+
+  /**
+   * Find the level number next to the "Level" label using word positions
+   * Prefers a number on the same line to the right of the label, then one just below it
+   */
+  private extractLevelSpatially(lines: OCRLine[]): { level: number; word: OCRWord } | null {
+    const words = lines.flatMap(line => line.words);
+    const labels = words.filter(w => this.levelLabelPattern.test(languageService.fold(w.text).replace(/[^a-z]/gi, '')));
+    const readNumber = (word: OCRWord) => ocrConfusionService.cleanNumbers(word.text.replace(/[:\-.,]/g, ''));
+    const numbers = words.filter(w => /^\d{1,4}$/.test(readNumber(w)));
+
+    let best: { level: number; word: OCRWord; distance: number } | null = null;
+
+    for (const label of labels) {
+      const labelHeight = Math.max(1, label.bbox.y1 - label.bbox.y0);
+      const labelWidth = Math.max(1, label.bbox.x1 - label.bbox.x0);
+      const maxDistance = labelHeight * 6;
+
+      for (const word of numbers) {
+        const level = parseInt(readNumber(word), 10);
+        if (level < 1 || level > 9999) continue;
+
+        const verticalOverlap = Math.min(label.bbox.y1, word.bbox.y1) - Math.max(label.bbox.y0, word.bbox.y0);
+        const horizontalOverlap = Math.min(label.bbox.x1 + labelWidth, word.bbox.x1) - Math.max(label.bbox.x0 - labelWidth, word.bbox.x0);
+
+        let distance: number | null = null;
+        if (verticalOverlap > 0 && word.bbox.x0 >= label.bbox.x1 - labelHeight / 2) {
+          // Same line, to the right of the label
+          distance = word.bbox.x0 - label.bbox.x1;
+        } else if (horizontalOverlap > 0 && word.bbox.y0 >= label.bbox.y1 - labelHeight / 2) {
+          // Below the label - slightly penalized so same-line numbers win ties
+          distance = (word.bbox.y0 - label.bbox.y1) + labelHeight;
+        }
+
+        if (distance === null || distance > maxDistance) continue;
+        if (!best || distance < best.distance) {
+          best = { level, word, distance };
+        }
+      }
+    }
+
+    if (best) {
+      logger.debug(`Spatial level match: ${best.level} (word: "${best.word.text}", distance: ${Math.round(best.distance)})`);
+      return { level: best.level, word: best.word };
+    }
+    return null;
+  }
+
+  /**
+   * Find the words that spell out a rank name on a single line
    */
-  matchRank(ocrText: string): MatchedRank | null {
+  private findRankNameWords(lines: OCRLine[], rankName: string): OCRWord[] {
+    const normalizedRankName = this.normalizeText(rankName);
+    const tokenCount = normalizedRankName.split(' ').length;
+    let bestWords: OCRWord[] = [];
+    let bestScore = 0.6;
+
+    for (const line of lines) {
+      for (let i = 0; i + tokenCount <= line.words.length; i++) {
+        const window = line.words.slice(i, i + tokenCount);
+        const score = ocrConfusionService.similarity(this.normalizeText(window.map(w => w.text).join(' ')), normalizedRankName);
+        if (score > bestScore) {
+          bestScore = score;
+          bestWords = window;
+        }
+      }
+    }
+
+    return bestWords;
+  }
+
+  /**
+   * Read the level from the level number region (digits-only pass) if it is a clean number
+   */
+  private extractLevelFromDigits(region?: OCRResult): number | null {
+    if (!region) return null;
+    const digits = ocrConfusionService.cleanNumbers(region.text.replace(/\s+/g, ''));
+    if (!/^\d{1,4}$/.test(digits)) return null;
+    const level = parseInt(digits, 10);
+    return level >= 1 && level <= 9999 ? level : null;
+  }
+
+  /**
+   * Find the level from regions, word positions, then text - in that order of preference
+   */
+  private findLevel(ocrText: string, pageLines: OCRLine[] | undefined, regions?: ProfileRegions): { evidence: LevelEvidence | null; words: OCRWord[] } {
+    const fromDigits = this.extractLevelFromDigits(regions?.level_number);
+    if (fromDigits !== null) {
+      logger.debug(`Extracted level from level number region: ${fromDigits}`);
+      return {
+        evidence: { level: fromDigits, source: 'level_number', pattern: 'digits', text: regions!.level_number!.text.trim() },
+        words: regions?.level_number?.words || [],
+      };
+    }
+
+    const levelRegion = regions?.level_progress;
+
+    for (const [source, lines] of [['level_progress', levelRegion?.lines], ['page', pageLines]] as const) {
+      const spatial = lines ? this.extractLevelSpatially(lines) : null;
+      if (spatial) {
+        return {
+          evidence: { level: spatial.level, source, pattern: 'label_position', text: spatial.word.text },
+          words: [spatial.word],
+        };
+      }
+    }
+
+    const fromRegion = regions ? this.extractLevelFromRegions(regions) : null;
+    if (fromRegion !== null) {
+      logger.debug(`Extracted level from Level Progress region: ${fromRegion.level}`);
+      return {
+        evidence: { ...fromRegion, source: 'level_progress' },
+        words: this.findNumberWords(levelRegion?.lines, fromRegion.level),
+      };
+    }
+
+    const fromText = this.extractLevel(ocrText);
+    if (fromText === null) {
+      return { evidence: null, words: [] };
+    }
+    return {
+      evidence: { ...fromText, source: 'page' },
+      words: this.findNumberWords(pageLines, fromText.level),
+    };
+  }
+
+  /**
+   * Find the word(s) an extracted number was read from
+   */
+  private findNumberWords(lines: OCRLine[] | undefined, value: number): OCRWord[] {
+    if (!lines) return [];
+    const word = lines.flatMap(line => line.words).find(w => ocrConfusionService.cleanNumbers(w.text).replace(/\D/g, '') === value.toString());
+    return word ? [word] : [];
+  }
+
+  /**
+   * Whether the level should be re-read with a digits-only pass: no level was found,
+   * the different sources disagree, or the Level Progress area holds a mangled number (e.g. "6l8")
+   */
+  needsLevelRecheck(ocr: string | OCRResult, regions?: ProfileRegions): boolean {
+    const ocrText = typeof ocr === 'string' ? ocr : ocr.text;
+    const pageLines = typeof ocr === 'string' ? undefined : ocr.lines;
+    const candidates = new Set<number>();
+    const addCandidate = (level: number | null | undefined) => {
+      if (level !== null && level !== undefined) candidates.add(level);
+    };
+
+    addCandidate(this.extractLevelFromDigits(regions?.level_number));
+    for (const lines of [regions?.level_progress?.lines, pageLines]) {
+      addCandidate(lines ? this.extractLevelSpatially(lines)?.level : null);
+    }
+    if (regions?.level_progress) {
+      addCandidate(this.extractLevelFromArea(regions.level_progress.text, true)?.level);
+    }
+    addCandidate(this.extractLevel(ocrText)?.level);
+
+    if (candidates.size !== 1) {
+      logger.debug(`Level recheck needed: ${candidates.size === 0 ? 'no level found' : `conflicting candidates ${[...candidates].join(', ')}`}`);
+      return true;
+    }
+
+    // Digits mixed with letters tesseract commonly confuses them with (see ocrConfusions.json)
+    const area = regions?.level_progress?.text ?? this.findLevelProgressArea(ocrText) ?? '';
+    const mangled = ocrConfusionService.findMangledNumber(area);
+    if (mangled) {
+      logger.debug(`Level recheck needed: mangled number "${mangled}" in level progress area`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Rank candidates from OCR text (dual detection: level + rank name), best first, each with
+   * the evidence that produced it. Candidates are ordered by the same precedence matchRank uses:
+   * level and name agree, then a confident name match, then the level alone, then a weaker name
+   * match, then other ranks whose names are similar to the OCR text.
+   * When region OCR is available it is used first, falling back to the full-page text.
+   * Passing a full OCRResult enables spatial level lookup and word-level confidence.
+   */
+  getRankCandidates(ocr: string | OCRResult, regions?: ProfileRegions, limit: number = 3): RankCandidate[] {
+    const ocrText = typeof ocr === 'string' ? ocr : ocr.text;
+    const pageLines = typeof ocr === 'string' ? undefined : ocr.lines;
     logger.info(`Matching rank from OCR text: ${ocrText.substring(0, 500)}`);
 
     // Extract level
-    const level = this.extractLevel(ocrText);
+    const { evidence: levelEvidence, words: levelWords } = this.findLevel(ocrText, pageLines, regions);
+    const level = levelEvidence?.level ?? null;
     logger.debug(`Extracted level: ${level}`);
 
     // Extract rank name
-    const { rank: rankFromName, confidence: nameConfidence } = this.extractRankName(ocrText);
-    logger.debug(`Extracted rank from name: ${rankFromName?.rank_name} (confidence: ${nameConfidence})`);
+    const { text: nameText, scores: nameScores, match: nameMatch } = this.findRankName(ocrText, regions);
+    const rankFromName = nameMatch?.rank ?? null;
+    logger.debug(`Extracted rank from name: ${rankFromName?.rank_name} (confidence: ${nameMatch?.similarity ?? 0})`);
 
     // Get rank from level
     const rankFromLevel = level ? this.getRankFromLevel(level) : null;
     logger.debug(`Extracted rank from level: ${rankFromLevel?.rank_name}`);
 
-    // Determine best match
-    let finalRank: RankConfig | null = null;
-    let finalConfidence = 0;
+    const nameLines = [...(regions?.rank?.lines || []), ...(regions?.level_progress?.lines || []), ...(pageLines || [])];
+    const scored: Array<{ candidate: RankCandidate; tier: number }> = [];
 
-    // If both methods agree, use that with high confidence
-    if (rankFromName && rankFromLevel && rankFromName.rank_name === rankFromLevel.rank_name) {
-      finalRank = rankFromName;
-      finalConfidence = Math.max(nameConfidence, 0.9);
-    }
-    // If rank name match is confident, use it
-    else if (rankFromName && nameConfidence >= 0.7) {
-      finalRank = rankFromName;
-      finalConfidence = nameConfidence;
-    }
-    // If level-based match exists, use it
-    else if (rankFromLevel) {
-      finalRank = rankFromLevel;
-      finalConfidence = 0.8; // Level-based matching is reliable
-    }
-    // If rank name match is above threshold, use it
-    else if (rankFromName && nameConfidence >= 0.6) {
-      finalRank = rankFromName;
-      finalConfidence = nameConfidence;
+    for (const { rank, similarity } of nameScores) {
+      const isNameMatch = rankFromName?.rank_name === rank.rank_name;
+      const isLevelMatch = rankFromLevel?.rank_name === rank.rank_name;
+      const agreement = isNameMatch && isLevelMatch;
+
+      let tier: number;
+      let confidence: number;
+      // If both methods agree, use that with high confidence
+      if (agreement) {
+        tier = 0;
+        confidence = Math.max(similarity, 0.9);
+      }
+      // If rank name match is confident, use it
+      else if (isNameMatch && similarity >= 0.7) {
+        tier = 1;
+        confidence = similarity;
+      }
+      // If level-based match exists, use it
+      else if (isLevelMatch) {
+        tier = 2;
+        confidence = 0.8; // Level-based matching is reliable
+      }
+      // If rank name match is above threshold, use it
+      else if (isNameMatch) {
+        tier = 3;
+        confidence = similarity;
+      }
+      // Other ranks the name could plausibly be
+      else if (similarity >= NAME_THRESHOLD) {
+        tier = 4;
+        confidence = similarity;
+      } else {
+        continue;
+      }
+
+      // Weight the match by how confidently OCR read the words it was based on, before ranking
+      // the candidates so their order and the ambiguity check see the final confidence
+      const usedWords: OCRWord[] = [];
+      if (isLevelMatch) {
+        usedWords.push(...levelWords);
+      }
+      if (tier !== 2) {
+        usedWords.push(...this.findRankNameWords(nameLines, rank.rank_name));
+      }
+      const wordConfidence = usedWords.length > 0
+        ? usedWords.reduce((sum, w) => sum + w.confidence, 0) / usedWords.length / 100
+        : undefined;
+      if (wordConfidence !== undefined) {
+        confidence = confidence * wordConfidence;
+      }
+
+      scored.push({
+        tier,
+        candidate: {
+          rank_name: rank.rank_name,
+          role_id: rank.role_id,
+          level_min: rank.level_min,
+          level_max: rank.level_max,
+          confidence,
+          word_confidence: wordConfidence,
+          level_detected: level || undefined,
+          evidence: {
+            level: levelEvidence ?? undefined,
+            level_in_range: isLevelMatch,
+            name_similarity: similarity,
+            name_text: nameText || undefined,
+            agreement,
+          },
+        },
+      });
     }
 
-    if (!finalRank) {
+    scored.sort((a, b) => a.tier - b.tier || b.candidate.confidence - a.candidate.confidence);
+
+    const candidates = scored.slice(0, Math.max(1, limit)).map(({ candidate }) => candidate);
+
+    if (candidates.length === 0) {
       logger.warn('Could not match rank from OCR text', { ocrText: ocrText.substring(0, 200), level });
-      return null;
+    } else {
+      logger.debug('Rank candidates', {
+        candidates: candidates.map(c => ({ rank_name: c.rank_name, confidence: c.confidence, evidence: c.evidence })),
+      });
     }
 
-    const result: MatchedRank = {
-      rank_name: finalRank.rank_name,
-      role_id: finalRank.role_id,
-      level_min: finalRank.level_min,
-      level_max: finalRank.level_max,
-      confidence: finalConfidence,
-      level_detected: level || undefined,
-    };
+    return candidates;
+  }
+
+  /**
+   * Match rank from OCR text - the best of getRankCandidates, or null when nothing matched
+   */
+  matchRank(ocr: string | OCRResult, regions?: ProfileRegions): MatchedRank | null {
+    const [result] = this.getRankCandidates(ocr, regions, 1);
+    if (!result) {
+      return null;
+    }
 
-    logger.info(`Matched rank: ${result.rank_name} (confidence: ${result.confidence}, level: ${result.level_detected})`);
+    logger.info(`Matched rank: ${result.rank_name} (confidence: ${result.confidence}, level: ${result.level_detected}, word confidence: ${result.word_confidence ?? 'n/a'})`);
 
     return result;
   }
 
+  /**
+   * Whether the top candidates are too close to call (the runner-up is within AMBIGUITY_MARGIN)
+   */
+  isAmbiguous(candidates: RankCandidate[]): boolean {
+    return candidates.length > 1 && candidates[0].confidence - candidates[1].confidence < AMBIGUITY_MARGIN;
+  }
+
   /**
    * Get rank by name (for admin commands)
    */
@@ -0,0 +1,329 @@
+import { ActionRowBuilder, AttachmentBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder } from 'discord.js';
+import { PendingReview } from '@prisma/client';
+import { ProfileSnapshot, RankCandidate, RankConfig, ReviewDecision, ReviewReason, ReviewSubmission } from '../types';
+import { databaseService } from './database';
+import { rankMatcher } from './rankMatcher';
+import { verificationRecorder } from './verificationRecorder';
+import { downloadImageBuffer } from './imageDownloader';
+import { sendReviewDM, sendVerificationDM } from './notifier';
+import { screenshotHashService } from './screenshotHash';
+import { evidenceStore } from './evidence';
+import { logger } from './logger';
+
+// Match confidences are weighted by OCR word confidence (about 0.9 for clean text), so the default
+// sits below the raw scores of a level-only (0.8) or agreeing (0.9) match
+const DEFAULT_MIN_CONFIDENCE = 0.65;
+const DEFAULT_LEVEL_JUMP = 100;
+
+// A name match this strong for a rank the level doesn't point to counts as a disagreement
+const DISAGREEMENT_NAME_SIMILARITY = 0.7;
+
+// Custom ID prefix of the review buttons and modal (review:<action>:<review id>)
+export const REVIEW_ID_PREFIX = 'review';
+
+const REASON_LABELS: Record<ReviewReason, string> = {
+  low_confidence: 'Low confidence',
+  ambiguous: 'Runner-up rank is almost as likely',
+  level_name_disagreement: 'Level and rank name point to different ranks',
+  level_jump: 'Large level change since the last verification',
+  shared_account: 'In-game account already verified by another Discord user',
+  duplicate_screenshot: 'Screenshot matches one submitted by another Discord user',
+  downgrade: 'Lower rank than the user\'s current verification',
+};
+
+/**
+ * Holds uncertain matches for a moderator in the review channel (REVIEW_CHANNEL_ID) instead of
+ * assigning a role, and applies or rejects them when a moderator acts on the review message
+ */
+class ReviewQueueService {
+  /**
+   * Whether matches can be sent for review (REVIEW_CHANNEL_ID is set)
+   */
+  isEnabled(): boolean {
+    return !!process.env.REVIEW_CHANNEL_ID;
+  }
+
+  private getMinConfidence(): number {
+    const value = parseFloat(process.env.REVIEW_MIN_CONFIDENCE || '');
+    return Number.isFinite(value) ? value : DEFAULT_MIN_CONFIDENCE;
+  }
+
+  private getLevelJump(): number {
+    const value = parseInt(process.env.REVIEW_LEVEL_JUMP || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_LEVEL_JUMP;
+  }
+
+  /**
+   * Why a match should be checked by a moderator (empty when it can be applied directly)
+   */
+  getReasons(candidates: RankCandidate[], level: number, previousLevel?: number | null): ReviewReason[] {
+    const [top] = candidates;
+    if (!top) return [];
+
+    const reasons: ReviewReason[] = [];
+
+    if (top.confidence < this.getMinConfidence()) {
+      reasons.push('low_confidence');
+    }
+
+    if (rankMatcher.isAmbiguous(candidates)) {
+      reasons.push('ambiguous');
+    }
+
+    // Chosen by name but the level is outside the rank, or chosen by level while the name reads as another rank
+    const levelOutsideRank = top.evidence.level !== undefined && !top.evidence.level_in_range;
+    const nameReadsOtherRank = top.evidence.level_in_range && !top.evidence.agreement &&
+      candidates.some(c => c !== top && c.evidence.name_similarity >= DISAGREEMENT_NAME_SIMILARITY);
+    if (levelOutsideRank || nameReadsOtherRank) {
+      reasons.push('level_name_disagreement');
+    }
+
+    if (previousLevel !== undefined && previousLevel !== null && Math.abs(level - previousLevel) >= this.getLevelJump()) {
+      reasons.push('level_jump');
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Post a match to the review channel. Older pending reviews for the same user are superseded
+   * once the new review is posted; if posting fails, the new review is deleted again and the error thrown.
+   */
+  async submit(submission: ReviewSubmission): Promise<PendingReview> {
+    const client = (global as any).client;
+    const channel = client ? await client.channels.fetch(process.env.REVIEW_CHANNEL_ID).catch(() => null) : null;
+    if (!channel || !('send' in channel)) {
+      throw new Error(`Review channel ${process.env.REVIEW_CHANNEL_ID} is not available`);
+    }
+
+    const review = await databaseService.createPendingReview(submission);
+
+    try {
+      const embed = this.buildEmbed(review, submission);
+      const files: AttachmentBuilder[] = [];
+
+      if (submission.image_url) {
+        try {
+          const { buffer, format } = await downloadImageBuffer(submission.image_url);
+          const imageName = `screenshot.${format === 'jpeg' ? 'jpg' : format}`;
+          files.push(new AttachmentBuilder(buffer, { name: imageName }));
+          embed.setImage(`attachment://${imageName}`);
+        } catch (error) {
+          logger.warn('Failed to attach screenshot to review', {
+            error: error instanceof Error ? error.message : String(error),
+            review_id: review.id,
+          });
+        }
+      }
+
+      const message = await channel.send({ embeds: [embed], files, components: [this.buildButtons(review.id)] });
+      await databaseService.setReviewMessageId(review.id, message.id);
+      review.review_message_id = message.id;
+    } catch (error) {
+      await databaseService.deletePendingReview(review.id).catch(deleteError => {
+        logger.error('Failed to delete review that could not be posted', { error: deleteError, review_id: review.id });
+      });
+      throw error;
+    }
+
+    for (const older of await databaseService.getPendingReviewsForUser(submission.discord_id, submission.guild_id)) {
+      if (older.id === review.id) continue;
+      if (await databaseService.resolvePendingReview(older.id, 'superseded', null)) {
+        await screenshotHashService.resolveReview(older.id, 'rejected');
+        await evidenceStore.discardPending(older);
+        await this.closeReviewMessage(older, '⏭️ Superseded by a newer screenshot', 0x95A5A6);
+      }
+    }
+
+    return review;
+  }
+
+  private buildEmbed(review: PendingReview, submission: ReviewSubmission): EmbedBuilder {
+    const candidates = submission.candidates.slice(0, 3).map((candidate, index) => {
+      const level = candidate.evidence.level ? `, level ${candidate.evidence.level.level}` : '';
+      return `${index + 1}. ${candidate.rank_name} (${Math.round(candidate.confidence * 100)}%${level})`;
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Verification Review #${review.id}`)
+      .addFields(
+        { name: 'User', value: `<@${review.discord_id}> (${review.username})`, inline: false },
+        { name: 'Detected Rank', value: review.rank_name, inline: true },
+        { name: 'Level', value: review.level_detected.toString(), inline: true },
+        { name: 'Confidence', value: `${Math.round(review.confidence * 100)}%`, inline: true },
+        { name: 'Why', value: submission.reasons.map(reason => `• ${REASON_LABELS[reason]}`).join('\n'), inline: false },
+        { name: 'Candidates', value: candidates.join('\n') || 'None', inline: false }
+      )
+      .setColor(0xF1C40F)
+      .setTimestamp();
+
+    const shared = submission.shared_account;
+    if (shared) {
+      embed.addFields({
+        name: 'Shared Account',
+        value: `${shared.key_type === 'unique_id' ? 'Unique ID' : 'Username'} \`${shared.key}\` already claimed by ${shared.discord_ids.map(id => `<@${id}>`).join(', ')}`,
+        inline: false,
+      });
+    }
+
+    if (submission.duplicate) {
+      embed.addFields({ name: 'Duplicate Screenshot', value: screenshotHashService.describe(submission.duplicate), inline: false });
+    }
+
+    const profile = submission.profile;
+    if (profile && (profile.username || profile.unique_id)) {
+      embed.addFields({
+        name: 'In-game Profile',
+        value: `Username: ${profile.username?.value ?? '_not read_'}\nUnique ID: ${profile.unique_id?.value ?? '_not read_'}`,
+        inline: false,
+      });
+    }
+
+    return embed;
+  }
+
+  private buildButtons(reviewId: number): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${REVIEW_ID_PREFIX}:approve:${reviewId}`)
+        .setLabel('Approve')
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`${REVIEW_ID_PREFIX}:reject:${reviewId}`)
+        .setLabel('Reject')
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(`${REVIEW_ID_PREFIX}:setrank:${reviewId}`)
+        .setLabel('Set rank')
+        .setStyle(ButtonStyle.Secondary)
+    );
+  }
+
+  /**
+   * Apply a reviewed match, optionally with a different rank chosen by the moderator
+   */
+  async approve(reviewId: number, moderatorId: string, rankName?: string): Promise<ReviewDecision> {
+    const review = await databaseService.getPendingReview(reviewId);
+    if (!review) {
+      return { success: false, message: `Review #${reviewId} not found.` };
+    }
+
+    const rank: RankConfig | null = rankMatcher.getRankByName(rankName ?? review.rank_name);
+    if (!rank) {
+      return { success: false, message: `Unknown rank: ${rankName ?? review.rank_name}` };
+    }
+
+    if (!(await databaseService.resolvePendingReview(reviewId, 'approved', moderatorId, rank.rank_name))) {
+      return { success: false, message: `Review #${reviewId} has already been resolved.` };
+    }
+
+    // Keep the detected level unless the moderator picked a rank it doesn't fall in
+    const level = review.level_detected >= rank.level_min && review.level_detected <= rank.level_max
+      ? review.level_detected
+      : rank.level_min;
+
+    try {
+      const client = (global as any).client;
+      const guild = await client.guilds.fetch(review.guild_id);
+      const member = await guild.members.fetch(review.discord_id);
+
+      const roleId = await verificationRecorder.record({
+        member,
+        rank,
+        level,
+        confidence: review.confidence,
+        language: review.language,
+        profile: review.profile as unknown as ProfileSnapshot | null,
+        review_id: review.id,
+        evidence: evidenceStore.getPending(review),
+      });
+
+      await logger.logAction({
+        timestamp: new Date(),
+        action_type: 'review_resolved',
+        user_id: review.discord_id,
+        username: review.username,
+        rank_name: rank.rank_name,
+        level_detected: level,
+        role_id_assigned: roleId,
+        success: true,
+        reviewer_id: moderatorId,
+        review_outcome: 'approved',
+      });
+    } catch (error) {
+      await databaseService.reopenPendingReview(reviewId);
+      logger.error('Failed to apply reviewed verification', { error, review_id: reviewId });
+      return {
+        success: false,
+        message: `Failed to apply review #${reviewId}: ${error instanceof Error ? error.message : 'unknown error'}. It is still pending.`,
+      };
+    }
+
+    await evidenceStore.discardPending(review);
+    await sendVerificationDM(review.discord_id, rank.rank_name, rank.level_min);
+
+    const changed = rank.rank_name !== review.rank_name ? ` (changed from ${review.rank_name})` : '';
+    await this.closeReviewMessage(review, `✅ Approved by <@${moderatorId}> as **${rank.rank_name}**${changed}`, 0x00AE86);
+    return { success: true, message: `✅ <@${review.discord_id}> verified as **${rank.rank_name}**.` };
+  }
+
+  /**
+   * Reject a reviewed match and ask the user for a clearer screenshot
+   */
+  async reject(reviewId: number, moderatorId: string): Promise<ReviewDecision> {
+    const review = await databaseService.getPendingReview(reviewId);
+    if (!review) {
+      return { success: false, message: `Review #${reviewId} not found.` };
+    }
+
+    if (!(await databaseService.resolvePendingReview(reviewId, 'rejected', moderatorId))) {
+      return { success: false, message: `Review #${reviewId} has already been resolved.` };
+    }
+    await screenshotHashService.resolveReview(reviewId, 'rejected');
+    await evidenceStore.discardPending(review);
+
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'review_resolved',
+      user_id: review.discord_id,
+      username: review.username,
+      rank_name: review.rank_name,
+      level_detected: review.level_detected,
+      success: true,
+      reviewer_id: moderatorId,
+      review_outcome: 'rejected',
+    });
+
+    await sendReviewDM(
+      review.discord_id,
+      '❌ Rank Verification Not Approved',
+      'A moderator reviewed your screenshot but couldn\'t confirm your rank from it.\n\n' +
+      'Please upload a clear, uncropped screenshot of your 8 Ball Pool **Profile** screen showing your level and rank.',
+      0xE74C3C
+    );
+
+    await this.closeReviewMessage(review, `❌ Rejected by <@${moderatorId}>`, 0xE74C3C);
+    return { success: true, message: `❌ Review #${reviewId} rejected.` };
+  }
+
+  /**
+   * Record the outcome on the review message and remove its buttons
+   */
+  private async closeReviewMessage(review: PendingReview, outcome: string, color: number): Promise<void> {
+    if (!review.review_message_id) return;
+
+    try {
+      const client = (global as any).client;
+      const channel = await client.channels.fetch(process.env.REVIEW_CHANNEL_ID);
+      const message = await channel.messages.fetch(review.review_message_id);
+      const embed = EmbedBuilder.from(message.embeds[0])
+        .setColor(color)
+        .addFields({ name: 'Outcome', value: outcome, inline: false });
+      await message.edit({ embeds: [embed], components: [] });
+    } catch (error) {
+      logger.warn('Failed to update review message', { error, review_id: review.id });
+    }
+  }
+}
+
+export const reviewQueue = new ReviewQueueService();
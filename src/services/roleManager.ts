@@ -1,35 +1,34 @@
-import { GuildMember, Role, Snowflake } from 'discord.js';
+import { Guild, GuildMember, Role, Snowflake } from 'discord.js';
 import { RankConfig } from '../types';
-import ranksConfig from '../config/ranks.json';
+import { guildRoleService } from './guildRoles';
 import { logger } from './logger';
 
 class RoleManagerService {
-  private rankRoleIds: Set<string>;
-
-  constructor() {
-    const ranks = ranksConfig as RankConfig[];
-    this.rankRoleIds = new Set(ranks.map(rank => rank.role_id));
-  }
-
   /**
-   * Check if a role ID is a rank role
+   * Get all rank roles that a member currently has
    */
-  private isRankRole(roleId: string): boolean {
-    return this.rankRoleIds.has(roleId);
+  private async getCurrentRankRoles(member: GuildMember): Promise<Role[]> {
+    const rankRoles: Role[] = [];
+    for (const role of member.roles.cache.values()) {
+      if (await guildRoleService.isRankRole(member.guild.id, role.id)) {
+        rankRoles.push(role);
+      }
+    }
+    return rankRoles;
   }
 
   /**
-   * Get all rank roles that a member currently has
+   * Role ID of a rank in a guild (the guild's mapping, or the rank table's role ID)
    */
-  private getCurrentRankRoles(member: GuildMember): Role[] {
-    return member.roles.cache.filter(role => this.isRankRole(role.id)).map(role => role);
+  async getRankRoleId(guildId: string, rank: RankConfig): Promise<string> {
+    return guildRoleService.getRoleId(guildId, rank);
   }
 
   /**
    * Remove all rank roles from a member
    */
   private async removeAllRankRoles(member: GuildMember): Promise<void> {
-    const rankRoles = this.getCurrentRankRoles(member);
+    const rankRoles = await this.getCurrentRankRoles(member);
     
     if (rankRoles.length === 0) {
       return;
@@ -59,24 +58,27 @@ class RoleManagerService {
     try {
       // First, remove all existing rank roles
       await this.removeAllRankRoles(member);
+      await this.clearExpiredMark(member);
 
-      // Get the role to assign
-      const role = member.guild.roles.cache.get(rank.role_id as Snowflake);
+      // Get the role to assign, using this guild's mapping for the rank
+      const roleId = await this.getRankRoleId(member.guild.id, rank);
+      const role = member.guild.roles.cache.get(roleId as Snowflake);
       
       if (!role) {
         logger.error('Rank role not found in guild', {
-          role_id: rank.role_id,
+          role_id: roleId,
           rank_name: rank.rank_name,
           guild_id: member.guild.id,
+          hint: 'Map the rank to a role in this server with !maprole',
         });
         return false;
       }
 
       // Check if member already has this role (shouldn't happen after removal, but just in case)
-      if (member.roles.cache.has(rank.role_id as Snowflake)) {
+      if (member.roles.cache.has(roleId as Snowflake)) {
         logger.debug('Member already has rank role', {
           user_id: member.id,
-          role_id: rank.role_id,
+          role_id: roleId,
           rank_name: rank.rank_name,
         });
         return true;
@@ -88,7 +90,7 @@ class RoleManagerService {
       logger.info('Rank role assigned', {
         user_id: member.id,
         username: member.user.username,
-        role_id: rank.role_id,
+        role_id: roleId,
         rank_name: rank.rank_name,
       });
 
@@ -161,11 +163,78 @@ class RoleManagerService {
     await this.removeAllRankRoles(member);
   }
 
+  /**
+   * Role marking an expired verification (VERIFICATION_EXPIRED_ROLE_ID), if it exists in the member's guild
+   */
+  private getExpiredRole(member: GuildMember): Role | null {
+    const roleId = process.env.VERIFICATION_EXPIRED_ROLE_ID;
+    return roleId ? member.guild.roles.cache.get(roleId as Snowflake) ?? null : null;
+  }
+
+  /**
+   * Mark a member's verification as expired with the expired role. Returns false when the role
+   * isn't configured in the member's guild.
+   */
+  async markExpired(member: GuildMember): Promise<boolean> {
+    const role = this.getExpiredRole(member);
+    if (!role) return false;
+    if (member.roles.cache.has(role.id)) return true;
+
+    await member.roles.add(role, 'Rank verification expired');
+    logger.info('Expired role assigned', { user_id: member.id, username: member.user.username, role_id: role.id });
+    return true;
+  }
+
+  /**
+   * Remove the expired role after a member verifies again
+   */
+  private async clearExpiredMark(member: GuildMember): Promise<void> {
+    const role = this.getExpiredRole(member);
+    if (!role || !member.roles.cache.has(role.id)) return;
+
+    await member.roles.remove(role, 'Rank verified again');
+    logger.info('Expired role removed', { user_id: member.id, username: member.user.username, role_id: role.id });
+  }
+
+  /**
+   * Give every member holding a rank's previous role its new role instead, after the rank's role
+   * mapping changed. Returns how many members were moved and how many couldn't be.
+   */
+  async moveRankRole(guild: Guild, fromRoleId: string, toRoleId: string): Promise<{ moved: number; failed: number }> {
+    const from = guild.roles.cache.get(fromRoleId as Snowflake);
+    const to = guild.roles.cache.get(toRoleId as Snowflake);
+    if (!from || !to) return { moved: 0, failed: 0 };
+
+    // role.members only covers cached members
+    await guild.members.fetch();
+
+    let moved = 0;
+    let failed = 0;
+    for (const member of from.members.values()) {
+      try {
+        await member.roles.add(to, 'Rank role mapping changed');
+        await member.roles.remove(from, 'Rank role mapping changed');
+        moved++;
+      } catch (error) {
+        failed++;
+        logger.warn('Failed to move member to new rank role', {
+          error: error instanceof Error ? error.message : String(error),
+          user_id: member.id,
+          from_role_id: from.id,
+          to_role_id: to.id,
+        });
+      }
+    }
+
+    logger.info('Rank role members moved', { guild_id: guild.id, from_role_id: from.id, to_role_id: to.id, moved, failed });
+    return { moved, failed };
+  }
+
   /**
    * Get the current rank role of a member (if any)
    */
-  getCurrentRankRole(member: GuildMember): Role | null {
-    const rankRoles = this.getCurrentRankRoles(member);
+  async getCurrentRankRole(member: GuildMember): Promise<Role | null> {
+    const rankRoles = await this.getCurrentRankRoles(member);
     return rankRoles.length > 0 ? rankRoles[0] : null;
   }
 }
@@ -0,0 +1,279 @@
+import sharp from 'sharp';
+import { EmbedBuilder } from 'discord.js';
+import { ScreenshotHash } from '@prisma/client';
+import { DuplicateScreenshotMatch, DuplicateScreenshotPolicy, ScreenshotHashStatus } from '../types';
+import { databaseService } from './database';
+import { sendModeratorAlert } from './notifier';
+import { logger } from './logger';
+
+// dHash grid: each row compares HASH_WIDTH + 1 neighbouring pixels, giving a 256-bit hash
+const HASH_WIDTH = 16;
+const HASH_HEIGHT = 16;
+
+// Profile screens share one layout, so only very close hashes count as the same screenshot
+const DEFAULT_MAX_DISTANCE = 10;
+
+// Hashes are indexed in 16 bands of 16 bits. Two hashes fewer than BAND_COUNT bits apart agree on
+// at least one whole band, so looking up rows sharing a band finds every match up to that distance.
+const BAND_COUNT = 16;
+const BAND_HEX_CHARS = 4;
+const MAX_INDEXED_DISTANCE = BAND_COUNT - 1;
+
+const DEFAULT_RETENTION_DAYS = 365;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLICIES: DuplicateScreenshotPolicy[] = ['block', 'review', 'allow'];
+const DEFAULT_POLICY: DuplicateScreenshotPolicy = 'review';
+
+/**
+ * Perceptual (difference) hashes of processed screenshots, to catch the same image being
+ * submitted from more than one Discord account even after resizing or recompression
+ */
+class ScreenshotHashService {
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * What to do with a screenshot another user already submitted (DUPLICATE_SCREENSHOT_POLICY)
+   */
+  getPolicy(): DuplicateScreenshotPolicy {
+    const policy = (process.env.DUPLICATE_SCREENSHOT_POLICY || '').trim().toLowerCase() as DuplicateScreenshotPolicy;
+    return POLICIES.includes(policy) ? policy : DEFAULT_POLICY;
+  }
+
+  /**
+   * Largest number of differing hash bits for two screenshots to count as the same image, capped at
+   * what the band index can find
+   */
+  getMaxDistance(): number {
+    const value = parseInt(process.env.DUPLICATE_HASH_DISTANCE || '', 10);
+    return Number.isFinite(value) && value >= 0 ? Math.min(value, MAX_INDEXED_DISTANCE) : DEFAULT_MAX_DISTANCE;
+  }
+
+  /**
+   * Days a screenshot hash is kept (DUPLICATE_HASH_RETENTION_DAYS, 0 keeps them forever)
+   */
+  getRetentionDays(): number {
+    const days = parseInt(process.env.DUPLICATE_HASH_RETENTION_DAYS || '', 10);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Index keys of a hash: each band prefixed with its position, so equal bits in different places don't match
+   */
+  getBands(hash: string): string[] {
+    const bands: string[] = [];
+    for (let band = 0; band * BAND_HEX_CHARS < hash.length; band++) {
+      bands.push(`${band}:${hash.slice(band * BAND_HEX_CHARS, (band + 1) * BAND_HEX_CHARS)}`);
+    }
+    return bands;
+  }
+
+  /**
+   * dHash of an image as a hex string: the image is shrunk to a small grayscale grid and each bit
+   * records whether a pixel is brighter than its right-hand neighbour
+   */
+  async compute(imagePath: string): Promise<string> {
+    const pixels = await sharp(imagePath)
+      .grayscale()
+      .resize(HASH_WIDTH + 1, HASH_HEIGHT, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hex = '';
+    let nibble = 0;
+    let bits = 0;
+    for (let row = 0; row < HASH_HEIGHT; row++) {
+      for (let col = 0; col < HASH_WIDTH; col++) {
+        const offset = row * (HASH_WIDTH + 1) + col;
+        nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+        if (++bits === 4) {
+          hex += nibble.toString(16);
+          nibble = 0;
+          bits = 0;
+        }
+      }
+    }
+
+    return hex;
+  }
+
+  /**
+   * Number of differing bits between two hashes (Infinity when they weren't made the same way)
+   */
+  distance(a: string, b: string): number {
+    if (a.length !== b.length) return Infinity;
+
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+      let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+      while (xor) {
+        distance += xor & 1;
+        xor >>= 1;
+      }
+    }
+    return distance;
+  }
+
+  /**
+   * Store the hash of a screenshot that verified a rank or was sent for review. Screenshots that
+   * were blocked or didn't match are never stored, so they can't count against anyone later.
+   */
+  async record(
+    hash: string,
+    submission: {
+      discord_id: string;
+      username: string;
+      guild_id?: string | null;
+      channel_id?: string | null;
+      message_id?: string | null;
+      rank_name?: string | null;
+      level_detected?: number | null;
+      status: ScreenshotHashStatus;
+      review_id?: number | null;
+    }
+  ): Promise<void> {
+    try {
+      await databaseService.createScreenshotHash({ hash, bands: this.getBands(hash), ...submission });
+    } catch (error) {
+      // Losing a hash only weakens duplicate detection; the verification itself can go on
+      logger.warn('Failed to record screenshot hash', { error, discord_id: submission.discord_id });
+    }
+  }
+
+  /**
+   * Mark the screenshot held for a review as verified or rejected once a moderator decides
+   */
+  async resolveReview(reviewId: number, status: ScreenshotHashStatus): Promise<void> {
+    try {
+      await databaseService.setScreenshotHashStatusForReview(reviewId, status);
+    } catch (error) {
+      logger.warn('Failed to update screenshot hash status', { error, review_id: reviewId, status });
+    }
+  }
+
+  /**
+   * Verified and pending screenshots from other users that nearly match a hash, closest first
+   */
+  async findMatches(hash: string, discordId: string): Promise<DuplicateScreenshotMatch[]> {
+    const maxDistance = this.getMaxDistance();
+    const matches: DuplicateScreenshotMatch[] = [];
+
+    for (const prior of await databaseService.getScreenshotHashesSharingBands(this.getBands(hash), discordId)) {
+      const distance = this.distance(hash, prior.hash);
+      if (distance <= maxDistance) {
+        matches.push(this.toMatch(prior, distance));
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance || a.submitted_at.getTime() - b.submitted_at.getTime());
+  }
+
+  /**
+   * The earliest matching screenshot from another user that verified a rank, or else the earliest
+   * one still waiting for review, so a copied screenshot is traced back to its original owner
+   */
+  async findDuplicate(hash: string | null | undefined, discordId: string): Promise<DuplicateScreenshotMatch | null> {
+    if (!hash) return null;
+    const matches = await this.findMatches(hash, discordId);
+    const earliest = (status: ScreenshotHashStatus) => matches
+      .filter(match => match.status === status)
+      .reduce<DuplicateScreenshotMatch | null>((first, match) => !first || match.submitted_at < first.submitted_at ? match : first, null);
+    return earliest('verified') ?? earliest('pending');
+  }
+
+  /**
+   * Log a duplicate and tell moderators in the review channel (if configured) what was done about it
+   */
+  async report(duplicate: DuplicateScreenshotMatch, discordId: string, username: string, action: string): Promise<void> {
+    const policy = this.getPolicy();
+
+    logger.warn('Duplicate screenshot detected', { discord_id: discordId, prior_submission: duplicate, policy });
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'duplicate_screenshot_detected',
+      user_id: discordId,
+      username,
+      success: policy !== 'block',
+      error_message: `Screenshot matches submission #${duplicate.hash_id} by ${duplicate.discord_id} (distance ${duplicate.distance})`,
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle('⚠️ Duplicate Screenshot Detected')
+      .addFields(
+        { name: 'User', value: `<@${discordId}> (${username})`, inline: false },
+        { name: 'Prior Submission', value: this.describe(duplicate), inline: false },
+        { name: 'Action', value: action, inline: false }
+      )
+      .setColor(0xE67E22)
+      .setTimestamp();
+
+    await sendModeratorAlert(embed);
+  }
+
+  /**
+   * One-line summary of a prior submission for embeds
+   */
+  describe(match: DuplicateScreenshotMatch): string {
+    const rank = match.rank_name ? `${match.rank_name}${match.level_detected !== null ? ` (level ${match.level_detected})` : ''}` : 'no rank';
+    const similarity = match.distance === 0 ? 'identical' : `${match.distance} bit(s) different`;
+    const pending = match.status === 'pending' ? ' (pending review)' : '';
+    return `#${match.hash_id} by <@${match.discord_id}> (${match.username}) on ${match.submitted_at.toLocaleString()} - ${rank}${pending}, ${similarity}`;
+  }
+
+  /**
+   * Delete hashes older than the retention period
+   */
+  async prune(): Promise<number> {
+    const retentionDays = this.getRetentionDays();
+    if (retentionDays === 0) return 0;
+
+    const count = await databaseService.deleteScreenshotHashesBefore(new Date(Date.now() - retentionDays * DAY_MS));
+    if (count > 0) {
+      logger.info('Expired screenshot hashes deleted', { count, retention_days: retentionDays });
+    }
+    return count;
+  }
+
+  /**
+   * Prune screenshot hashes now and then every hour
+   */
+  start(): void {
+    if (this.pruneTimer) return;
+
+    const prune = () => this.prune().catch(error => {
+      logger.error('Failed to prune screenshot hashes', { error });
+    });
+    void prune();
+    this.pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS);
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * Stop the hourly pruning
+   */
+  stop(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  private toMatch(prior: ScreenshotHash, distance: number): DuplicateScreenshotMatch {
+    return {
+      hash_id: prior.id,
+      discord_id: prior.discord_id,
+      username: prior.username,
+      message_id: prior.message_id,
+      channel_id: prior.channel_id,
+      guild_id: prior.guild_id,
+      rank_name: prior.rank_name,
+      level_detected: prior.level_detected,
+      status: prior.status as ScreenshotHashStatus,
+      submitted_at: prior.created_at,
+      distance,
+    };
+  }
+}
+
+export const screenshotHashService = new ScreenshotHashService();
@@ -0,0 +1,110 @@
+import { OCRResult, RegionOCRResult, ScreenshotReading } from '../types';
+import { ocrService } from './ocr';
+import { OCRQueueFullError, OCRTimeoutError } from './ocrPool';
+import { rankMatcher } from './rankMatcher';
+import { languageService } from './languages';
+import { profileClassifier } from './profileClassifier';
+import { profileParser } from './profileParser';
+import { logger } from './logger';
+
+/**
+ * Reads a profile screenshot on disk: OCR with preprocessing variants, the profile screen check,
+ * the labelled regions, a digits-only level re-read when needed, rank candidates and the profile
+ * snapshot. Used by the verification flow and the offline matcher evaluation.
+ */
+class ScreenshotReaderService {
+  /**
+   * Read a screenshot. OCR queue overflows and timeouts are thrown; a failed region or level pass
+   * only falls back to the full-page text. With fresh, cached OCR results are not used.
+   */
+  async read(filePath: string, filename?: string, fresh: boolean = false): Promise<ScreenshotReading> {
+    // Extract text using OCR, trying preprocessing variants until one yields a usable profile
+    logger.debug('Starting OCR extraction...');
+    const ocrResult: OCRResult = await ocrService.extractText(filePath, {
+      filename,
+      fresh,
+      accept: (result) => profileClassifier.classify(result.text).is_profile && rankMatcher.matchRank(result) !== null,
+    });
+    logger.info('OCR extraction completed', {
+      text_length: ocrResult.text.length,
+      confidence: ocrResult.confidence,
+      variant: ocrResult.variant,
+      text_preview: ocrResult.text.substring(0, 200)
+    });
+
+    // Validate that this is a profile screenshot
+    const classification = profileClassifier.classify(ocrResult.text);
+    if (!classification.is_profile) {
+      logger.warn('Image is not a profile screenshot', {
+        score: classification.score,
+        threshold: classification.threshold,
+        matched: classification.matched.map(match => `${match.id}:${match.weight}`),
+        ocr_text_preview: ocrResult.text.substring(0, 300)
+      });
+      return { ocr: ocrResult, is_profile: false, candidates: [], language: null, profile: null };
+    }
+
+    // Read the labelled profile regions (Level Progress, rank, Unique ID, username) on their own
+    let regionResult: RegionOCRResult | null = null;
+    try {
+      regionResult = await ocrService.extractRegions(filePath, { variant: ocrResult.variant, filename, fresh });
+    } catch (error) {
+      if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+        throw error;
+      }
+      logger.warn('Region OCR failed, matching on full-page text only', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Re-read the level number digits-only when the first pass found no clean level
+    if (regionResult && rankMatcher.needsLevelRecheck(ocrResult, regionResult.regions)) {
+      try {
+        const levelDigits = await ocrService.extractLevelDigits(filePath, { variant: ocrResult.variant, filename, fresh });
+        if (levelDigits) {
+          regionResult = { ...regionResult, regions: { ...regionResult.regions, level_number: levelDigits } };
+        }
+      } catch (error) {
+        if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+          throw error;
+        }
+        logger.warn('Level digits pass failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Match rank
+    logger.debug('Starting rank matching...');
+    const candidates = rankMatcher.getRankCandidates(ocrResult, regionResult?.regions);
+    const matchedRank = candidates[0];
+
+    if (!matchedRank) {
+      logger.warn('No rank matched from OCR text', {
+        ocr_text_preview: ocrResult.text.substring(0, 300)
+      });
+      return { ocr: ocrResult, regions: regionResult?.regions, is_profile: true, candidates: [], language: null, profile: null };
+    }
+
+    const language = languageService.detectLanguage(ocrResult.text);
+    const profile = profileParser.parse(ocrResult, regionResult?.regions, matchedRank);
+
+    logger.info('Rank matched successfully', {
+      rank_name: matchedRank.rank_name,
+      level: matchedRank.level_detected,
+      confidence: matchedRank.confidence,
+      word_confidence: matchedRank.word_confidence,
+      variant: ocrResult.variant,
+      layout: regionResult?.layout,
+      language,
+      profile_score: classification.score,
+      evidence: matchedRank.evidence,
+      ambiguous: rankMatcher.isAmbiguous(candidates),
+      candidates: candidates.map(c => ({ rank_name: c.rank_name, confidence: c.confidence, evidence: c.evidence })),
+    });
+
+    return { ocr: ocrResult, regions: regionResult?.regions, is_profile: true, candidates, language, profile };
+  }
+}
+
+export const screenshotReader = new ScreenshotReaderService();
@@ -0,0 +1,112 @@
+import { EmbedBuilder } from 'discord.js';
+import { ProfileSnapshot, SharedAccountConflict, SharedAccountGroup, SharedAccountPolicy } from '../types';
+import { databaseService } from './database';
+import { sendModeratorAlert } from './notifier';
+import { logger } from './logger';
+
+const POLICIES: SharedAccountPolicy[] = ['block', 'review', 'allow'];
+const DEFAULT_POLICY: SharedAccountPolicy = 'review';
+
+/**
+ * Detects one 8 Ball Pool account claimed by several Discord users (account dealing or trading)
+ */
+class SharedAccountService {
+  /**
+   * What to do with a screenshot of an account another user already verified (SHARED_ACCOUNT_POLICY)
+   */
+  getPolicy(): SharedAccountPolicy {
+    const policy = (process.env.SHARED_ACCOUNT_POLICY || '').trim().toLowerCase() as SharedAccountPolicy;
+    return POLICIES.includes(policy) ? policy : DEFAULT_POLICY;
+  }
+
+  /**
+   * Other users bound to the account on a screenshot: by Unique ID (verifications and links
+   * confirmed by a screenshot), or by in-game username when no Unique ID could be read
+   */
+  async findConflict(discordId: string, profile: ProfileSnapshot | null | undefined): Promise<SharedAccountConflict | null> {
+    const uniqueId = profile?.unique_id?.value;
+    if (uniqueId) {
+      const verifications = await databaseService.getVerificationsByUniqueId(uniqueId, discordId);
+      const links = await databaseService.getVerifiedLinkedAccountsByUniqueId(uniqueId, discordId);
+      const discordIds = [...new Set([...verifications, ...links].map(record => record.discord_id))];
+      return discordIds.length > 0 ? { key_type: 'unique_id', key: uniqueId, discord_ids: discordIds } : null;
+    }
+
+    const gameUsername = profile?.username?.value;
+    if (gameUsername) {
+      const verifications = await databaseService.getVerificationsByGameUsername(gameUsername, discordId);
+      const discordIds = [...new Set(verifications.map(record => record.discord_id))];
+      return discordIds.length > 0 ? { key_type: 'username', key: gameUsername, discord_ids: discordIds } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Log a conflict and tell moderators in the review channel (if configured) what was done about it
+   */
+  async report(conflict: SharedAccountConflict, discordId: string, username: string, action: string): Promise<void> {
+    const policy = this.getPolicy();
+
+    logger.warn('Shared account detected', { discord_id: discordId, ...conflict, policy });
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'shared_account_detected',
+      user_id: discordId,
+      username,
+      success: policy !== 'block',
+      error_message: `${conflict.key_type === 'unique_id' ? 'Unique ID' : 'Username'} ${conflict.key} already verified by ${conflict.discord_ids.join(', ')}`,
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle('⚠️ Shared Account Detected')
+      .addFields(
+        { name: 'User', value: `<@${discordId}> (${username})`, inline: false },
+        { name: conflict.key_type === 'unique_id' ? 'Unique ID' : 'In-game Username', value: conflict.key, inline: true },
+        { name: 'Already Claimed By', value: conflict.discord_ids.map(id => `<@${id}>`).join(', '), inline: true },
+        { name: 'Action', value: action, inline: false }
+      )
+      .setColor(0xE67E22)
+      .setTimestamp();
+
+    await sendModeratorAlert(embed);
+  }
+
+  /**
+   * Every Unique ID bound to more than one Discord user, by verification screenshot or confirmed
+   * link, and every in-game username shared with a verification that had no readable Unique ID
+   * (the ones findConflict matches by username)
+   */
+  async listConflicts(): Promise<SharedAccountGroup[]> {
+    const groups = new Map<string, SharedAccountGroup>();
+    const add = (keyType: SharedAccountGroup['key_type'], key: string, user: SharedAccountGroup['users'][number]) => {
+      const id = `${keyType}:${keyType === 'username' ? key.toLowerCase() : key}`;
+      const group = groups.get(id) || { key_type: keyType, key, users: [] };
+      if (!group.users.some(existing => existing.discord_id === user.discord_id && existing.source === user.source)) {
+        group.users.push(user);
+      }
+      groups.set(id, group);
+    };
+
+    for (const verification of await databaseService.getVerificationsWithUniqueId()) {
+      add('unique_id', verification.unique_id!, { discord_id: verification.discord_id, username: verification.username, source: 'verification' });
+    }
+    for (const link of await databaseService.getVerifiedLinkedAccounts()) {
+      add('unique_id', link.unique_id, { discord_id: link.discord_id, source: 'link' });
+    }
+
+    const byUsername = await databaseService.getVerificationsWithGameUsername();
+    const usernamesWithoutId = new Set(byUsername.filter(v => !v.unique_id).map(v => v.game_username!.toLowerCase()));
+    for (const verification of byUsername) {
+      if (usernamesWithoutId.has(verification.game_username!.toLowerCase())) {
+        add('username', verification.game_username!, { discord_id: verification.discord_id, username: verification.username, source: 'verification' });
+      }
+    }
+
+    return [...groups.values()]
+      .filter(group => new Set(group.users.map(user => user.discord_id)).size > 1)
+      .sort((a, b) => a.key_type.localeCompare(b.key_type) || a.key.localeCompare(b.key));
+  }
+}
+
+export const sharedAccountService = new SharedAccountService();
@@ -0,0 +1,142 @@
+import { SubmissionLimitDecision } from '../types';
+import { logger } from './logger';
+
+const DEFAULT_LIMIT = 3;
+const DEFAULT_WINDOW_MS = 10 * 60 * 1000;
+const DEFAULT_INVALID_THRESHOLD = 3;
+const DEFAULT_INVALID_COOLDOWN_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+interface SubmitterState {
+  // Start times of accepted submissions within the window
+  attempts: number[];
+  // Invalid screenshots in a row (reset by a usable screenshot, or forgotten after the longest cooldown)
+  invalid_streak: number;
+  last_invalid_at: number;
+  cooldown_until: number;
+  // Until when the user has already been told they're throttled
+  notified_until: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Per-user limit on screenshot submissions in the rank channel: at most SUBMISSION_LIMIT per
+ * SUBMISSION_WINDOW_MS, plus a cooldown that doubles with each further invalid screenshot once a
+ * user has sent SUBMISSION_INVALID_THRESHOLD in a row. State is kept in memory.
+ */
+class SubmissionLimiterService {
+  private users: Map<string, SubmitterState> = new Map();
+  private lastSweep = Date.now();
+
+  private getLimit(): number {
+    return envNumber('SUBMISSION_LIMIT', DEFAULT_LIMIT);
+  }
+
+  private getWindowMs(): number {
+    return envNumber('SUBMISSION_WINDOW_MS', DEFAULT_WINDOW_MS);
+  }
+
+  private getMaxCooldownMs(): number {
+    return envNumber('SUBMISSION_MAX_COOLDOWN_MS', DEFAULT_MAX_COOLDOWN_MS);
+  }
+
+  private getState(userId: string): SubmitterState {
+    let state = this.users.get(userId);
+    if (!state) {
+      state = { attempts: [], invalid_streak: 0, last_invalid_at: 0, cooldown_until: 0, notified_until: 0 };
+      this.users.set(userId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Whether a user may submit now. Accepted submissions count towards the limit.
+   */
+  check(userId: string, now: number = Date.now()): SubmissionLimitDecision {
+    this.sweep(now);
+
+    const state = this.getState(userId);
+    const windowMs = this.getWindowMs();
+    state.attempts = state.attempts.filter(time => time > now - windowMs);
+
+    let retryAt: number | null = null;
+    let reason: SubmissionLimitDecision['reason'];
+    if (state.cooldown_until > now) {
+      retryAt = state.cooldown_until;
+      reason = 'invalid_cooldown';
+    } else if (state.attempts.length >= this.getLimit()) {
+      retryAt = state.attempts[0] + windowMs;
+      reason = 'rate_limit';
+    }
+
+    if (retryAt === null) {
+      state.attempts.push(now);
+      return { allowed: true };
+    }
+
+    // Tell the user once per throttled period rather than on every message
+    const notify = state.notified_until < retryAt;
+    state.notified_until = retryAt;
+    return { allowed: false, reason, retry_at: new Date(retryAt), notify };
+  }
+
+  /**
+   * Count an invalid screenshot (not a profile, unsupported format). From the threshold on, each
+   * one starts a cooldown twice as long as the last, up to SUBMISSION_MAX_COOLDOWN_MS.
+   */
+  recordInvalid(userId: string, now: number = Date.now()): void {
+    const state = this.getState(userId);
+    if (now - state.last_invalid_at > this.getMaxCooldownMs()) {
+      state.invalid_streak = 0;
+    }
+    state.invalid_streak++;
+    state.last_invalid_at = now;
+
+    const over = state.invalid_streak - envNumber('SUBMISSION_INVALID_THRESHOLD', DEFAULT_INVALID_THRESHOLD);
+    if (over < 0) return;
+
+    const cooldownMs = Math.min(
+      envNumber('SUBMISSION_INVALID_COOLDOWN_MS', DEFAULT_INVALID_COOLDOWN_MS) * 2 ** over,
+      this.getMaxCooldownMs()
+    );
+    state.cooldown_until = now + cooldownMs;
+    logger.info('Submission cooldown started after invalid screenshots', {
+      user_id: userId,
+      invalid_streak: state.invalid_streak,
+      cooldown_ms: cooldownMs,
+    });
+  }
+
+  /**
+   * Reset a user's invalid streak after a usable screenshot
+   */
+  recordValid(userId: string): void {
+    const state = this.users.get(userId);
+    if (state) {
+      state.invalid_streak = 0;
+    }
+  }
+
+  /**
+   * Forget users with nothing left to limit, at most once per window
+   */
+  private sweep(now: number): void {
+    const windowMs = this.getWindowMs();
+    if (now - this.lastSweep < windowMs) return;
+    this.lastSweep = now;
+
+    for (const [userId, state] of this.users) {
+      const active = state.attempts.some(time => time > now - windowMs) || state.cooldown_until > now;
+      const streakExpired = state.invalid_streak === 0 || now - state.last_invalid_at > this.getMaxCooldownMs();
+      if (!active && streakExpired) {
+        this.users.delete(userId);
+      }
+    }
+  }
+}
+
+export const submissionLimiter = new SubmissionLimiterService();
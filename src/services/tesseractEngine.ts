@@ -0,0 +1,90 @@
+import { RecognizeOptions, Line, Word, Bbox, PSM } from 'tesseract.js';
+import { OcrEngine, OcrRecognizeOptions, OCRResult, OCRPoolStats, OCRLine, OCRWord, BoundingBox } from '../types';
+import { OCRWorkerPool } from './ocrPool';
+import { languageService } from './languages';
+import { logger } from './logger';
+
+// Accented letters used by the non-English profile screens (see config/languages.json)
+const ACCENTED_LETTERS = 'ÁÀÂÃÇÉÈÊÍÎÓÔÕÚÜÑĞİŞáàâãçéèêíîóôõúüñğış';
+
+// Tesseract variables are applied per job, so they are passed alongside the recognize options
+const RECOGNIZE_OPTIONS = {
+  tessedit_char_whitelist: `0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz${ACCENTED_LETTERS} `,
+} as Partial<RecognizeOptions>;
+
+// Digits-only single line read, used for the level number
+const DIGITS_OPTIONS = {
+  tessedit_char_whitelist: '0123456789',
+  tessedit_pageseg_mode: PSM.SINGLE_LINE,
+} as Partial<RecognizeOptions>;
+
+function toBoundingBox(bbox: Bbox): BoundingBox {
+  return { x0: bbox.x0, y0: bbox.y0, x1: bbox.x1, y1: bbox.y1 };
+}
+
+function toWord(word: Word): OCRWord {
+  return { text: word.text, confidence: word.confidence, bbox: toBoundingBox(word.bbox) };
+}
+
+function toLine(line: Line): OCRLine {
+  return {
+    text: line.text.trim(),
+    confidence: line.confidence,
+    bbox: toBoundingBox(line.bbox),
+    words: line.words.map(toWord),
+  };
+}
+
+/**
+ * OCR engine backed by a pool of tesseract.js workers
+ */
+export class TesseractEngine implements OcrEngine {
+  readonly name = 'tesseract';
+  private pool: OCRWorkerPool | null = null;
+
+  async initialize(): Promise<void> {
+    const pool = new OCRWorkerPool({
+      workerCount: Math.max(1, parseInt(process.env.OCR_WORKER_COUNT || '2', 10) || 2),
+      maxQueueSize: Math.max(1, parseInt(process.env.OCR_MAX_QUEUE_SIZE || '50', 10) || 50),
+      jobTimeoutMs: Math.max(1000, parseInt(process.env.OCR_JOB_TIMEOUT_MS || '60000', 10) || 60000),
+      languages: languageService.getOcrLanguages(),
+    });
+    await pool.initialize();
+    this.pool = pool;
+  }
+
+  async recognize(image: string | Buffer, options: OcrRecognizeOptions = {}): Promise<OCRResult> {
+    if (!this.pool) {
+      throw new Error('Tesseract engine is not initialized');
+    }
+
+    const recognizeOptions: Partial<RecognizeOptions> = { ...(options.mode === 'digits' ? DIGITS_OPTIONS : RECOGNIZE_OPTIONS) };
+    if (options.rectangle) {
+      recognizeOptions.rectangle = options.rectangle;
+    }
+
+    const { data } = await this.pool.run(worker => worker.recognize(image, recognizeOptions));
+
+    // Copy geometry into plain objects - tesseract's page tree is circular
+    const lines = (data.lines || []).map(toLine);
+
+    return {
+      text: data.text.trim(),
+      confidence: data.confidence || 0,
+      lines,
+      words: lines.flatMap(line => line.words),
+    };
+  }
+
+  getStats(): OCRPoolStats | null {
+    return this.pool ? this.pool.getStats() : null;
+  }
+
+  async terminate(): Promise<void> {
+    if (this.pool) {
+      await this.pool.terminate();
+      this.pool = null;
+      logger.debug('Tesseract engine terminated');
+    }
+  }
+}
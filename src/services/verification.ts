@@ -0,0 +1,586 @@
+import { Attachment, GuildMember } from 'discord.js';
+import fs from 'fs';
+import path from 'path';
+import { DowngradePolicy, ImageFormat, RankCandidate, ScreenshotReading, VerificationOutcome } from '../types';
+import { screenshotReader } from './screenshotReader';
+import { ocrService } from './ocr';
+import { OCRQueueFullError, OCRTimeoutError } from './ocrPool';
+import { rankMatcher } from './rankMatcher';
+import { roleManager } from './roleManager';
+import { databaseService } from './database';
+import {
+  downloadImage,
+  getMaxImageBytes,
+  ImageDownloadError,
+  ImageTooLargeError,
+  UnsupportedImageFormatError,
+} from './imageDownloader';
+import { reviewQueue } from './reviewQueue';
+import { sharedAccountService } from './sharedAccounts';
+import { screenshotHashService } from './screenshotHash';
+import { guildSettingsService } from './guildSettings';
+import { submissionLimiter } from './submissionLimiter';
+import { evidenceStore } from './evidence';
+import { verificationRecorder } from './verificationRecorder';
+import { logger } from './logger';
+
+const TEMP_DIR = path.join(process.cwd(), 'tmp');
+const ALLOWED_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+/**
+ * Screenshots to verify for a guild member
+ */
+export interface VerificationRequest {
+  member: GuildMember;
+  images: Attachment[];
+  // Where the screenshots were posted, kept with their perceptual hashes
+  channel_id?: string | null;
+  message_id?: string | null;
+  // Skip the per-user submission limits (moderators)
+  exempt_from_limits?: boolean;
+}
+
+interface ImageResult {
+  attachment: Attachment;
+  file_path?: string;
+  format?: ImageFormat;
+  reading?: ScreenshotReading;
+  match?: RankCandidate;
+  hash?: string | null;
+  busy?: boolean;
+  downloadError?: ImageDownloadError;
+}
+
+/**
+ * Whether an attachment looks like an image, by its extension or content type
+ */
+export function isImageAttachment(attachment: Attachment): boolean {
+  const extension = path.extname(attachment.url.split('?')[0]).toLowerCase();
+  const contentType = attachment.contentType || '';
+  return ALLOWED_IMAGE_EXTENSIONS.includes(extension) || contentType.startsWith('image/');
+}
+
+/**
+ * What to tell a user whose screenshot couldn't be downloaded
+ */
+function describeDownloadError(error: ImageDownloadError): string {
+  if (error instanceof ImageTooLargeError) {
+    const maxMb = Math.round((getMaxImageBytes() / (1024 * 1024)) * 10) / 10;
+    return `❌ Your image is too large (the limit is ${maxMb} MB). Please upload a smaller screenshot of your 8 Ball Pool **Profile** screen.`;
+  }
+  if (error instanceof UnsupportedImageFormatError) {
+    return "❌ Unsupported image format. Please upload your screenshot as a PNG, JPEG or WebP image.";
+  }
+  return "⏳ I couldn't download your screenshot from Discord. Please upload it again in a moment.";
+}
+
+/**
+ * What to tell a user whose screenshot shows a lower rank than their current verification
+ */
+function describeDowngrade(policy: DowngradePolicy, currentRank: string, newRank: string): { title: string; message: string } {
+  const shows = `Your screenshot shows **${newRank}**, which is lower than your verified rank **${currentRank}**.\n\n`;
+  switch (policy) {
+    case 'highest':
+      return {
+        title: 'ℹ️ Rank Not Changed',
+        message: shows +
+          `This server keeps your highest verified rank, so your role has not changed. ` +
+          `If your earlier rank was misread, please contact a moderator.`,
+      };
+    case 'latest':
+      return {
+        title: 'ℹ️ Rank Lowered',
+        message: `Your screenshot shows **${newRank}**, which is lower than your previous rank **${currentRank}**.\n\n` +
+          `This server always uses your latest screenshot, so your role has been changed to **${newRank}**.`,
+      };
+    case 'review':
+      return {
+        title: '⏳ Rank Change Pending',
+        message: shows +
+          `In this server a moderator has to approve a lower rank. Until then you keep **${currentRank}**, ` +
+          `and you'll get a DM once it has been reviewed.`,
+      };
+  }
+}
+
+/**
+ * The verification pipeline: download → OCR → match → checks → role → database. Shared by
+ * screenshots posted in the rank channel and the /verify command; callers decide how to tell the
+ * user (DM or ephemeral reply) and what to do with the original message.
+ */
+class VerificationService {
+  /**
+   * Download and read a single image attachment. A downloaded image is left at file_path for the
+   * caller to archive and delete.
+   */
+  private async processImage(attachment: Attachment): Promise<ImageResult> {
+    // The real format is checked from the downloaded bytes; the extension only names the temp file
+    const fileExtension = path.extname(attachment.url.split('?')[0]).toLowerCase();
+    const tempFilePath = path.join(TEMP_DIR, `image_${Date.now()}_${Math.random().toString(36).substring(7)}${fileExtension}`);
+
+    try {
+      logger.info('Starting image processing', { url: attachment.url, temp_path: tempFilePath });
+
+      if (!fs.existsSync(TEMP_DIR)) {
+        fs.mkdirSync(TEMP_DIR, { recursive: true });
+      }
+
+      logger.debug('Downloading image...');
+      const format = await downloadImage(attachment.url, tempFilePath);
+      logger.debug('Image downloaded successfully');
+
+      // Perceptual hash for duplicate detection; without it the verification still goes ahead
+      const hash = await screenshotHashService.compute(tempFilePath).catch(error => {
+        logger.warn('Failed to hash screenshot', { error: error instanceof Error ? error.message : String(error) });
+        return null;
+      });
+
+      const reading = await screenshotReader.read(tempFilePath, attachment.name);
+      return { attachment, file_path: tempFilePath, format, reading, match: reading.candidates[0], hash };
+    } catch (error) {
+      // Clean up temporary file
+      if (fs.existsSync(tempFilePath)) {
+        fs.unlinkSync(tempFilePath);
+      }
+
+      if (error instanceof ImageDownloadError) {
+        logger.warn('Failed to download image', {
+          error: error.message,
+          type: error.name,
+          attachment_url: attachment.url,
+        });
+        return { attachment, downloadError: error };
+      }
+
+      if (error instanceof OCRQueueFullError || error instanceof OCRTimeoutError) {
+        logger.warn('OCR unavailable for image', {
+          error: error.message,
+          attachment_url: attachment.url,
+          ocr_stats: ocrService.getStats(),
+        });
+        return { attachment, busy: true };
+      }
+
+      logger.error('Error processing image', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        attachment_url: attachment.url
+      });
+      return { attachment };
+    }
+  }
+
+  /**
+   * Verify a member from one or more screenshots (the most confident match is used)
+   */
+  async verify(request: VerificationRequest): Promise<VerificationOutcome> {
+    const { member } = request;
+    const userId = member.user.id;
+    const username = member.user.username;
+
+    // Throttle repeated submissions before spending a download and OCR on them
+    if (!request.exempt_from_limits) {
+      const limit = submissionLimiter.check(userId);
+      if (!limit.allowed && limit.retry_at) {
+        const retryAt = Math.ceil(limit.retry_at.getTime() / 1000);
+        logger.info('Submission throttled', { user_id: userId, reason: limit.reason, retry_at: limit.retry_at });
+
+        if (limit.notify) {
+          await logger.logAction({
+            timestamp: new Date(),
+            action_type: 'submission_throttled',
+            user_id: userId,
+            username,
+            success: false,
+            error_message: `${limit.reason} until ${limit.retry_at.toISOString()}`,
+          });
+        }
+
+        return {
+          status: 'throttled',
+          notify: limit.notify,
+          message: limit.reason === 'invalid_cooldown'
+            ? `⏳ Too many of your recent uploads weren't 8 Ball Pool **Profile** screenshots. You can try again <t:${retryAt}:R> (at <t:${retryAt}:t>).`
+            : `⏳ You're sending screenshots too quickly. You can try again <t:${retryAt}:R> (at <t:${retryAt}:t>).`,
+        };
+      }
+    }
+
+    const results: ImageResult[] = [];
+    try {
+      return await this.run(request, results);
+    } finally {
+      // Clean up temporary files
+      for (const result of results) {
+        if (result.file_path && fs.existsSync(result.file_path)) {
+          fs.unlinkSync(result.file_path);
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the screenshots into results, then verify the best match
+   */
+  private async run(request: VerificationRequest, results: ImageResult[]): Promise<VerificationOutcome> {
+    const { member } = request;
+    const userId = member.user.id;
+    const username = member.user.username;
+
+    logger.info('Processing image(s) from user', {
+      user_id: userId,
+      username,
+      attachment_count: request.images.length,
+      ocr_stats: ocrService.getStats(),
+      ocr_cache: ocrService.getCacheStats(),
+    });
+
+    // Process all images and find the best match
+    for (const attachment of request.images) {
+      results.push(await this.processImage(attachment));
+    }
+
+    const matched = results.filter(r => r.match);
+
+    // Check if any images were invalid (not profile screenshots)
+    if (results.some(r => r.reading && !r.reading.is_profile)) {
+      submissionLimiter.recordInvalid(userId);
+
+      await logger.logAction({
+        timestamp: new Date(),
+        action_type: 'ocr_processed',
+        user_id: userId,
+        username,
+        success: false,
+        error_message: 'Invalid image format - not a profile screenshot',
+      });
+
+      return {
+        status: 'not_profile',
+        message: "❌ Invalid format. Please upload a screenshot of your 8 Ball Pool **Profile** screen (showing your level, rank, and stats), not the main menu or other screens.",
+      };
+    }
+
+    // OCR queue was full or timed out - ask the user to retry instead of blaming the screenshot
+    if (matched.length === 0 && results.some(r => r.busy)) {
+      await logger.logAction({
+        timestamp: new Date(),
+        action_type: 'ocr_processed',
+        user_id: userId,
+        username,
+        success: false,
+        error_message: 'OCR queue full or timed out',
+      });
+
+      return {
+        status: 'ocr_busy',
+        message: "⏳ The verification queue is very busy right now. Please upload your screenshot again in a few minutes.",
+      };
+    }
+
+    // The screenshot couldn't be downloaded (too large, not an image, timed out) - say which
+    const downloadError = results.find(r => r.downloadError)?.downloadError;
+    if (matched.length === 0 && downloadError) {
+      if (downloadError instanceof UnsupportedImageFormatError || downloadError instanceof ImageTooLargeError) {
+        submissionLimiter.recordInvalid(userId);
+      }
+
+      await logger.logAction({
+        timestamp: new Date(),
+        action_type: 'ocr_processed',
+        user_id: userId,
+        username,
+        success: false,
+        error_message: downloadError.message,
+      });
+
+      return { status: 'download_failed', message: describeDownloadError(downloadError) };
+    }
+
+    if (matched.length === 0) {
+      await logger.logAction({
+        timestamp: new Date(),
+        action_type: 'ocr_processed',
+        user_id: userId,
+        username,
+        success: false,
+        error_message: 'OCR failed to extract rank information',
+      });
+
+      return {
+        status: 'no_match',
+        message: "I couldn't read your screenshot clearly. Please upload a clearer image of your 8 Ball Pool profile showing your level and rank.",
+      };
+    }
+
+    submissionLimiter.recordValid(userId);
+
+    // Find the best match (highest confidence)
+    const bestMatch = matched.reduce((best, current) => current.match!.confidence > best.match!.confidence ? current : best);
+
+    try {
+      return await this.apply(request, bestMatch);
+    } catch (error) {
+      logger.error('Error in verification process', {
+        error,
+        user_id: userId,
+        username,
+        rank_name: bestMatch.match!.rank_name,
+      });
+
+      await logger.logAction({
+        timestamp: new Date(),
+        action_type: 'error',
+        user_id: userId,
+        username,
+        success: false,
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        status: 'error',
+        message: "An error occurred while processing your verification. Please try again or contact an administrator.",
+      };
+    }
+  }
+
+  /**
+   * Run the checks on a matched screenshot, then assign the role or send it for review
+   */
+  private async apply(request: VerificationRequest, bestMatch: ImageResult): Promise<VerificationOutcome> {
+    const { member } = request;
+    const userId = member.user.id;
+    const username = member.user.username;
+    const reading = bestMatch.reading!;
+    const matchedRank = bestMatch.match!;
+    const levelDetected = matchedRank.level_detected || matchedRank.level_min;
+
+    // A lower rank than the current verification is handled by the guild's downgrade policy
+    const existingVerification = await databaseService.getVerification(userId);
+    const existingRank = existingVerification ? rankMatcher.getRankByName(existingVerification.rank_name) : undefined;
+    const isDowngrade = !!existingRank && existingRank.level_min > matchedRank.level_min;
+    let downgradePolicy = isDowngrade ? await guildSettingsService.getDowngradePolicy(member.guild.id) : null;
+    if (downgradePolicy === 'review' && !reviewQueue.isEnabled()) {
+      // Without a review channel there is nobody to approve it, so the higher rank stays
+      downgradePolicy = 'highest';
+    }
+    const downgrade = existingVerification && downgradePolicy
+      ? { previous_rank: existingVerification.rank_name, downgrade_policy: downgradePolicy }
+      : {};
+
+    if (existingVerification && downgradePolicy) {
+      logger.info('Lower rank than current verification', {
+        user_id: userId,
+        existing_rank: existingVerification.rank_name,
+        new_rank: matchedRank.rank_name,
+        policy: downgradePolicy,
+      });
+
+      await logger.logAction({
+        timestamp: new Date(),
+        action_type: 'downgrade_decision',
+        user_id: userId,
+        username,
+        rank_name: matchedRank.rank_name,
+        level_detected: levelDetected,
+        previous_rank: existingVerification.rank_name,
+        downgrade_policy: downgradePolicy,
+        success: true,
+      });
+    }
+
+    // The same in-game account already verified (or linked) by another Discord user
+    const sharedAccount = await sharedAccountService.findConflict(userId, reading.profile);
+    const sharedAccountPolicy = sharedAccountService.getPolicy();
+    if (sharedAccount && (sharedAccountPolicy === 'block' || (sharedAccountPolicy === 'review' && !reviewQueue.isEnabled()))) {
+      await sharedAccountService.report(sharedAccount, userId, username, 'Verification blocked');
+      return {
+        status: 'blocked',
+        message: `❌ This 8 Ball Pool account has already been verified by another Discord user.\n\n` +
+          `If this is your account, please contact a moderator.`,
+      };
+    }
+    if (sharedAccount && sharedAccountPolicy === 'allow') {
+      await sharedAccountService.report(sharedAccount, userId, username, 'Verification allowed (SHARED_ACCOUNT_POLICY=allow)');
+    }
+
+    // The same screenshot (or a resized copy) already submitted from another Discord account
+    const duplicate = await screenshotHashService.findDuplicate(bestMatch.hash, userId);
+    const duplicatePolicy = screenshotHashService.getPolicy();
+    if (duplicate && (duplicatePolicy === 'block' || (duplicatePolicy === 'review' && !reviewQueue.isEnabled()))) {
+      await screenshotHashService.report(duplicate, userId, username, 'Verification blocked');
+      return {
+        status: 'blocked',
+        message: `❌ This screenshot has already been used to verify another Discord account.\n\n` +
+          `Please upload a new screenshot of your own Profile screen, or contact a moderator if you think this is a mistake.`,
+      };
+    }
+    if (duplicate && duplicatePolicy === 'allow') {
+      await screenshotHashService.report(duplicate, userId, username, 'Verification allowed (DUPLICATE_SCREENSHOT_POLICY=allow)');
+    }
+
+    if (existingVerification && downgradePolicy === 'highest') {
+      // A screenshot of the user's own account renews the kept rank, restoring the role if it had
+      // expired; one held up by the shared-account or duplicate checks leaves the expiry clock alone.
+      // The screenshot isn't archived, since the archive backs the kept rank for recheck.
+      const renew = (!sharedAccount || sharedAccountPolicy === 'allow') && (!duplicate || duplicatePolicy === 'allow');
+      if (renew) {
+        await roleManager.assignRankRole(member, existingRank!);
+        await databaseService.touchVerification(userId);
+        if (bestMatch.hash) {
+          await screenshotHashService.record(bestMatch.hash, {
+            discord_id: userId,
+            username,
+            guild_id: member.guild.id,
+            channel_id: request.channel_id,
+            message_id: request.message_id,
+            rank_name: matchedRank.rank_name,
+            level_detected: levelDetected,
+            status: 'verified',
+          });
+        }
+      } else {
+        if (sharedAccount) {
+          await sharedAccountService.report(sharedAccount, userId, username, 'Rank kept, verification not renewed');
+        }
+        if (duplicate) {
+          await screenshotHashService.report(duplicate, userId, username, 'Rank kept, verification not renewed');
+        }
+      }
+
+      return {
+        status: 'rank_kept',
+        rank_name: existingVerification.rank_name,
+        ...downgrade,
+        ...describeDowngrade('highest', existingVerification.rank_name, matchedRank.rank_name),
+      };
+    }
+
+    // Hold uncertain matches for a moderator instead of assigning a role
+    const reviewReasons = reviewQueue.getReasons(reading.candidates, levelDetected, existingVerification?.level_detected);
+    if (sharedAccount && sharedAccountPolicy === 'review') {
+      await sharedAccountService.report(sharedAccount, userId, username, 'Sent for review');
+      reviewReasons.push('shared_account');
+    }
+    if (duplicate && duplicatePolicy === 'review') {
+      await screenshotHashService.report(duplicate, userId, username, 'Sent for review');
+      reviewReasons.push('duplicate_screenshot');
+    }
+    if (downgradePolicy === 'review') {
+      reviewReasons.push('downgrade');
+    }
+    if (reviewQueue.isEnabled() && reviewReasons.length > 0) {
+      const review = await reviewQueue.submit({
+        discord_id: userId,
+        username,
+        guild_id: member.guild.id,
+        rank: matchedRank,
+        candidates: reading.candidates,
+        level: levelDetected,
+        reasons: reviewReasons,
+        language: reading.language,
+        profile: reading.profile,
+        shared_account: sharedAccount,
+        duplicate,
+        image_url: bestMatch.attachment.url,
+        image_name: bestMatch.attachment.name,
+      });
+
+      // The review is already in the channel, so the user is told it's pending even if this fails
+      try {
+        if (bestMatch.hash) {
+          await screenshotHashService.record(bestMatch.hash, {
+            discord_id: userId,
+            username,
+            guild_id: member.guild.id,
+            channel_id: request.channel_id,
+            message_id: request.message_id,
+            rank_name: matchedRank.rank_name,
+            level_detected: levelDetected,
+            status: 'pending',
+            review_id: review.id,
+          });
+        }
+        await evidenceStore.savePending(review.id, evidenceStore.toSource(bestMatch.file_path!, bestMatch.format!, reading));
+
+        await logger.logAction({
+          timestamp: new Date(),
+          action_type: 'review_requested',
+          user_id: userId,
+          username,
+          rank_name: matchedRank.rank_name,
+          level_detected: levelDetected,
+          success: true,
+          ocr_variant: reading.ocr.variant,
+          language: reading.language ?? undefined,
+        });
+      } catch (error) {
+        logger.error('Failed to store screenshot for review', { error, user_id: userId, review_id: review.id });
+      }
+
+      return {
+        status: 'pending_review',
+        rank_name: matchedRank.rank_name,
+        level_min: matchedRank.level_min,
+        level: levelDetected,
+        ...downgrade,
+        ...(downgradePolicy === 'review' && existingVerification
+          ? describeDowngrade('review', existingVerification.rank_name, matchedRank.rank_name)
+          : {
+            title: '⏳ Rank Verification Pending',
+            message: `Your screenshot needs a quick check by a moderator before your rank is updated.\n\n` +
+              `You'll get a DM as soon as it has been reviewed - there's no need to upload it again.`,
+          }),
+      };
+    }
+
+    const roleId = await verificationRecorder.record({
+      member,
+      rank: {
+        role_id: matchedRank.role_id,
+        rank_name: matchedRank.rank_name,
+        level_min: matchedRank.level_min,
+        level_max: matchedRank.level_max,
+      },
+      level: levelDetected,
+      confidence: matchedRank.confidence,
+      language: reading.language,
+      profile: reading.profile,
+      hash: bestMatch.hash,
+      channel_id: request.channel_id,
+      message_id: request.message_id,
+      evidence: evidenceStore.toSource(bestMatch.file_path!, bestMatch.format!, reading),
+    });
+
+    // Log action
+    await logger.logAction({
+      timestamp: new Date(),
+      action_type: 'verification_updated',
+      user_id: userId,
+      username,
+      rank_name: matchedRank.rank_name,
+      level_detected: levelDetected,
+      role_id_assigned: roleId,
+      success: true,
+      ocr_variant: reading.ocr.variant,
+      language: reading.language ?? undefined,
+    });
+
+    return {
+      status: 'verified',
+      rank_name: matchedRank.rank_name,
+      level_min: matchedRank.level_min,
+      level: levelDetected,
+      ...downgrade,
+      ...(downgradePolicy === 'latest' && existingVerification
+        ? describeDowngrade('latest', existingVerification.rank_name, matchedRank.rank_name)
+        : {
+          title: '✅ Rank Verification Successful',
+          message: `Your 8 Ball Pool rank has been verified as **${matchedRank.rank_name}** (Level ${matchedRank.level_min}+).\n\n` +
+            `Your Discord role has been updated successfully.`,
+        }),
+    };
+  }
+}
+
+export const verificationService = new VerificationService();
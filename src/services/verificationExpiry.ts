@@ -0,0 +1,241 @@
+import { Client, Guild } from 'discord.js';
+import { Verification, VerificationExpiry } from '@prisma/client';
+import { ExpiringVerification, ExpiryAction, ExpiryPreview } from '../types';
+import { databaseService } from './database';
+import { roleManager } from './roleManager';
+import { sendReviewDM } from './notifier';
+import { logger } from './logger';
+
+const EXPIRY_ACTIONS: ExpiryAction[] = ['none', 'remove', 'mark'];
+const DEFAULT_GRACE_DAYS = 14;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+// Reminder DMs per hourly check, so a first run over a large table doesn't flood Discord
+const MAX_REMINDERS_PER_RUN = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Re-verification of old ranks: verifications not renewed for VERIFICATION_MAX_AGE_DAYS get a
+ * reminder DM, and VERIFICATION_GRACE_DAYS after that VERIFICATION_EXPIRY_ACTION is applied
+ * (remove the rank role, mark it with VERIFICATION_EXPIRED_ROLE_ID, or nothing). A new
+ * verification starts the clock again.
+ */
+class VerificationExpiryService {
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Age after which a verification has to be renewed (VERIFICATION_MAX_AGE_DAYS), or null when expiry is off
+   */
+  getMaxAgeDays(): number | null {
+    const days = parseInt(process.env.VERIFICATION_MAX_AGE_DAYS || '', 10);
+    return Number.isFinite(days) && days > 0 ? days : null;
+  }
+
+  /**
+   * Days between the reminder and the expiry action (VERIFICATION_GRACE_DAYS)
+   */
+  getGraceDays(): number {
+    const days = parseInt(process.env.VERIFICATION_GRACE_DAYS || '', 10);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+  }
+
+  /**
+   * What happens once the grace period is over (VERIFICATION_EXPIRY_ACTION)
+   */
+  getAction(): ExpiryAction {
+    const action = (process.env.VERIFICATION_EXPIRY_ACTION || '').trim().toLowerCase();
+    return (EXPIRY_ACTIONS as string[]).includes(action) ? action as ExpiryAction : 'none';
+  }
+
+  /**
+   * Sort verifications older than maxAgeDays by what the expiry check would do with them
+   */
+  async preview(maxAgeDays: number, now: Date = new Date()): Promise<ExpiryPreview> {
+    const graceDays = this.getGraceDays();
+    const preview: ExpiryPreview = {
+      max_age_days: maxAgeDays,
+      grace_days: graceDays,
+      action: this.getAction(),
+      remind: [],
+      expire: [],
+      expired: [],
+    };
+
+    const stale = await databaseService.getVerificationsUpdatedBefore(new Date(now.getTime() - maxAgeDays * DAY_MS));
+    if (stale.length === 0) return preview;
+
+    const states = new Map(
+      (await databaseService.getVerificationExpiries(stale.map(v => v.discord_id))).map(state => [state.discord_id, state])
+    );
+    const graceCutoff = now.getTime() - graceDays * DAY_MS;
+
+    for (const verification of stale) {
+      const entry = this.toEntry(verification, states.get(verification.discord_id));
+      if (!entry.reminded_at) {
+        preview.remind.push(entry);
+      } else if (entry.expired_at) {
+        preview.expired.push(entry);
+      } else if (entry.reminded_at.getTime() <= graceCutoff) {
+        preview.expire.push(entry);
+      }
+    }
+
+    return preview;
+  }
+
+  /**
+   * Send due reminders and expire verifications whose grace period is over
+   */
+  async run(now: Date = new Date()): Promise<void> {
+    const maxAgeDays = this.getMaxAgeDays();
+    if (maxAgeDays === null) return;
+
+    const client: Client | undefined = (global as any).client;
+    if (!client) {
+      logger.warn('Discord client not available for verification expiry');
+      return;
+    }
+
+    const preview = await this.preview(maxAgeDays, now);
+
+    const reminders = preview.remind.slice(0, MAX_REMINDERS_PER_RUN);
+    for (const entry of reminders) {
+      await this.remind(entry, now);
+    }
+    for (const entry of preview.expire) {
+      await this.expire(client, entry, now);
+    }
+
+    if (reminders.length > 0 || preview.expire.length > 0) {
+      logger.info('Verification expiry check completed', {
+        reminded: reminders.length,
+        reminders_left: preview.remind.length - reminders.length,
+        expired: preview.expire.length,
+        action: preview.action,
+      });
+    }
+  }
+
+  private async remind(entry: ExpiringVerification, now: Date): Promise<void> {
+    const action = this.getAction();
+    const deadline = Math.floor((now.getTime() + this.getGraceDays() * DAY_MS) / 1000);
+    const consequence = action === 'remove'
+      ? `\n\nIf you haven't verified again by <t:${deadline}:D>, your rank role will be removed.`
+      : action === 'mark'
+        ? `\n\nIf you haven't verified again by <t:${deadline}:D>, your rank will be marked as expired.`
+        : '';
+
+    await sendReviewDM(
+      entry.discord_id,
+      '🔄 Time to Verify Your Rank Again',
+      `Your rank **${entry.rank_name}** was last verified on ${entry.verified_at.toLocaleDateString()}. ` +
+      `Ranks change over time, so please upload a new screenshot of your 8 Ball Pool **Profile** screen ` +
+      `in the verification channel or with \`/verify\`.` + consequence,
+      0x3498DB
+    );
+    await databaseService.upsertVerificationExpiry(entry.discord_id, now, null);
+
+    await logger.logAction({
+      timestamp: now,
+      action_type: 'reverification_reminder',
+      user_id: entry.discord_id,
+      username: entry.username,
+      rank_name: entry.rank_name,
+      success: true,
+    });
+  }
+
+  private async expire(client: Client, entry: ExpiringVerification, now: Date): Promise<void> {
+    const action = this.getAction();
+    let applied = 0;
+
+    if (action !== 'none') {
+      for (const guild of client.guilds.cache.values()) {
+        try {
+          if (await this.applyToGuild(guild, entry.discord_id, action)) {
+            applied++;
+          }
+        } catch (error) {
+          logger.warn('Failed to apply verification expiry in guild', {
+            error: error instanceof Error ? error.message : String(error),
+            user_id: entry.discord_id,
+            guild_id: guild.id,
+            action,
+          });
+        }
+      }
+    }
+
+    if (action !== 'none' && applied === 0) {
+      logger.info('Verification expired, but there was no server to apply it in', { user_id: entry.discord_id, action });
+    }
+    await databaseService.upsertVerificationExpiry(entry.discord_id, entry.reminded_at!, now);
+
+    await logger.logAction({
+      timestamp: now,
+      action_type: 'verification_expired',
+      user_id: entry.discord_id,
+      username: entry.username,
+      rank_name: entry.rank_name,
+      success: true,
+    });
+  }
+
+  /**
+   * Remove or mark a user's rank role in one guild. Returns false when they aren't a member.
+   */
+  private async applyToGuild(guild: Guild, discordId: string, action: ExpiryAction): Promise<boolean> {
+    const member = await guild.members.fetch(discordId).catch(() => null);
+    if (!member) return false;
+
+    if (action === 'remove') {
+      await roleManager.removeAllRankRolesFromMember(member);
+      return true;
+    }
+    if (!(await roleManager.markExpired(member))) {
+      logger.debug('VERIFICATION_EXPIRED_ROLE_ID is not a role in this guild, expiry not marked', { guild_id: guild.id });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * A verification with its reminder state. A reminder from before the last verification no longer counts.
+   */
+  private toEntry(verification: Verification, state: VerificationExpiry | undefined): ExpiringVerification {
+    const current = state && state.reminded_at.getTime() >= verification.updated_at.getTime() ? state : null;
+    return {
+      discord_id: verification.discord_id,
+      username: verification.username,
+      rank_name: verification.rank_name,
+      verified_at: verification.updated_at,
+      reminded_at: current?.reminded_at ?? null,
+      expired_at: current?.expired_at ?? null,
+    };
+  }
+
+  /**
+   * Run the expiry check now and then every hour
+   */
+  start(): void {
+    if (this.checkTimer) return;
+
+    const check = () => this.run().catch(error => {
+      logger.error('Verification expiry check failed', { error });
+    });
+    void check();
+    this.checkTimer = setInterval(check, CHECK_INTERVAL_MS);
+    this.checkTimer.unref();
+  }
+
+  /**
+   * Stop the hourly check
+   */
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+}
+
+export const verificationExpiryService = new VerificationExpiryService();
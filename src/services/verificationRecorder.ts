@@ -0,0 +1,81 @@
+import { GuildMember } from 'discord.js';
+import { EvidenceSource, ProfileSnapshot, RankConfig } from '../types';
+import { roleManager } from './roleManager';
+import { databaseService } from './database';
+import { accountLinkService } from './accountLinks';
+import { screenshotHashService } from './screenshotHash';
+import { evidenceStore } from './evidence';
+
+/**
+ * A rank to store for a guild member, with what was read from their screenshot
+ */
+export interface VerifiedRank {
+  member: GuildMember;
+  rank: RankConfig;
+  level: number;
+  // Confidence of the match, archived with the screenshot
+  confidence: number;
+  language?: string | null;
+  profile?: ProfileSnapshot | null;
+  // Perceptual hash of the screenshot and where it was posted, kept for duplicate detection
+  hash?: string | null;
+  channel_id?: string | null;
+  message_id?: string | null;
+  // An approved review, whose screenshot hash was stored when it was sent for review
+  review_id?: number;
+  // Screenshot to archive for recheck
+  evidence?: EvidenceSource | null;
+}
+
+/**
+ * The steps every way of verifying a rank ends with - a matched screenshot, an approved review or
+ * an applied recheck - so none of them can skip part of the bookkeeping
+ */
+class VerificationRecorderService {
+  /**
+   * Assign the rank role, store the verification, confirm the user's account link, keep the
+   * screenshot hash as a verified one and archive the screenshot.
+   * Returns the ID of the role that was assigned.
+   */
+  async record(verified: VerifiedRank): Promise<string> {
+    const { member, rank } = verified;
+    const userId = member.user.id;
+
+    await roleManager.assignRankRole(member, rank);
+    const roleId = await roleManager.getRankRoleId(member.guild.id, rank);
+
+    await databaseService.upsertVerification({
+      discord_id: userId,
+      username: member.user.username,
+      rank_name: rank.rank_name,
+      level_detected: verified.level,
+      role_id_assigned: roleId,
+      language: verified.language,
+      profile: verified.profile,
+    });
+    await accountLinkService.confirmFromProfile(userId, verified.profile);
+
+    if (verified.review_id !== undefined) {
+      await screenshotHashService.resolveReview(verified.review_id, 'verified');
+    } else if (verified.hash) {
+      await screenshotHashService.record(verified.hash, {
+        discord_id: userId,
+        username: member.user.username,
+        guild_id: member.guild.id,
+        channel_id: verified.channel_id,
+        message_id: verified.message_id,
+        rank_name: rank.rank_name,
+        level_detected: verified.level,
+        status: 'verified',
+      });
+    }
+
+    if (verified.evidence) {
+      await evidenceStore.save(userId, member.user.username, verified.evidence, rank.rank_name, verified.level, verified.confidence);
+    }
+
+    return roleId;
+  }
+}
+
+export const verificationRecorder = new VerificationRecorderService();
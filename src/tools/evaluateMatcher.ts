@@ -0,0 +1,278 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { EvaluationCase, OcrFixture, ProfileRegions } from '../types';
+import { rankMatcher } from '../services/rankMatcher';
+import { rankConfigService } from '../services/rankConfig';
+import { ocrConfusionService } from '../services/ocrConfusions';
+import { ocrService } from '../services/ocr';
+import { screenshotReader } from '../services/screenshotReader';
+import { logger } from '../services/logger';
+
+/**
+ * Offline accuracy evaluation for the rank matcher.
+ *
+ *   npm run evaluate -- [case dir] [--min-accuracy 0.9] [--ocr]
+ *
+ * Each .json file in the case directory is a labelled screenshot (see EvaluationCase). By default
+ * the matcher runs on the OCR text of the case's fixture; with --ocr the case's image is run
+ * through the full OCR path with the configured engine instead. Exits with code 1 when rank accuracy is
+ * below the minimum, and 2 when the cases can't be loaded.
+ */
+
+// Load environment variables (OCR engine settings for --ocr)
+dotenv.config();
+
+const NO_RANK = '(none)';
+const ERROR = '(error)';
+const DEFAULT_MIN_ACCURACY = 0.9;
+
+interface EvaluationOptions {
+  dir: string;
+  minAccuracy: number;
+  useOcr: boolean;
+}
+
+interface CaseOutcome {
+  file: string;
+  expected_rank: string;
+  predicted_rank: string;
+  expected_level?: number;
+  predicted_level: number | null;
+  confidence: number | null;
+  error?: string;
+}
+
+function parseArgs(argv: string[]): EvaluationOptions {
+  let dir = process.env.EVAL_CASE_DIR || path.join(process.cwd(), 'fixtures', 'eval');
+  let minAccuracy = process.env.EVAL_MIN_ACCURACY ? parseFloat(process.env.EVAL_MIN_ACCURACY) : DEFAULT_MIN_ACCURACY;
+  let useOcr = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--ocr') {
+      useOcr = true;
+    } else if (arg === '--min-accuracy') {
+      minAccuracy = parseFloat(argv[++i]);
+    } else if (arg.startsWith('--min-accuracy=')) {
+      minAccuracy = parseFloat(arg.slice('--min-accuracy='.length));
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      dir = arg;
+    }
+  }
+
+  if (!(minAccuracy >= 0 && minAccuracy <= 1)) {
+    throw new Error('Minimum accuracy must be a number between 0 and 1');
+  }
+
+  return { dir: path.resolve(dir), minAccuracy, useOcr };
+}
+
+function loadCases(dir: string): Array<{ file: string; data: EvaluationCase }> {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Evaluation case directory not found: ${dir}`);
+  }
+
+  const files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+  return files.map(file => {
+    const data = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as EvaluationCase;
+    if (!data.expected || (data.expected.rank_name !== null && typeof data.expected.rank_name !== 'string')) {
+      throw new Error(`${file}: expected.rank_name is missing (use null for screenshots that should not match)`);
+    }
+    return { file, data };
+  });
+}
+
+/**
+ * OCR text of a case: its own fixture fields, or else the OCR fixture stored next to its image
+ */
+function loadFixture(dir: string, testCase: EvaluationCase): OcrFixture {
+  if (testCase.result) {
+    return testCase as OcrFixture;
+  }
+  if (!testCase.image) {
+    throw new Error('case has no OCR result or image');
+  }
+
+  const imagePath = path.resolve(dir, testCase.image);
+  const fixturePath = path.join(path.dirname(imagePath), `${path.parse(imagePath).name}.json`);
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(`no OCR fixture for image: ${fixturePath}`);
+  }
+  return JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as OcrFixture;
+}
+
+/**
+ * Match a case from its fixture's OCR text, re-reading the level from level_digits when the
+ * matcher would ask for a digits-only pass (as the verification flow does)
+ */
+function matchFromText(fixture: OcrFixture): { rank: string; level: number | null; confidence: number | null } {
+  let regions: ProfileRegions | undefined = fixture.regions;
+  if (regions && fixture.level_digits && rankMatcher.needsLevelRecheck(fixture.result, regions)) {
+    regions = { ...regions, level_number: fixture.level_digits };
+  }
+
+  const match = rankMatcher.matchRank(fixture.result, regions);
+  return match
+    ? { rank: match.rank_name, level: match.level_detected ?? null, confidence: match.confidence }
+    : { rank: NO_RANK, level: null, confidence: null };
+}
+
+/**
+ * Run a case's image through the full OCR path: variants, profile check, regions and level recheck
+ */
+async function matchFromImage(imagePath: string): Promise<{ rank: string; level: number | null; confidence: number | null }> {
+  // Same OCR passes as the verification flow
+  const reading = await screenshotReader.read(imagePath, path.basename(imagePath));
+  const match = reading.candidates[0];
+  return match
+    ? { rank: match.rank_name, level: match.level_detected ?? null, confidence: match.confidence }
+    : { rank: NO_RANK, level: null, confidence: null };
+}
+
+async function evaluateCase(dir: string, file: string, testCase: EvaluationCase, useOcr: boolean): Promise<CaseOutcome> {
+  const outcome: CaseOutcome = {
+    file,
+    expected_rank: testCase.expected.rank_name ?? NO_RANK,
+    predicted_rank: NO_RANK,
+    expected_level: testCase.expected.level,
+    predicted_level: null,
+    confidence: null,
+  };
+
+  try {
+    let result;
+    if (useOcr) {
+      if (!testCase.image) {
+        throw new Error('case has no image');
+      }
+      result = await matchFromImage(path.resolve(dir, testCase.image));
+    } else {
+      result = matchFromText(loadFixture(dir, testCase));
+    }
+    outcome.predicted_rank = result.rank;
+    outcome.predicted_level = result.level;
+    outcome.confidence = result.confidence;
+  } catch (error) {
+    outcome.predicted_rank = ERROR;
+    outcome.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return outcome;
+}
+
+function percent(value: number, total: number): string {
+  return total === 0 ? '-' : `${((value / total) * 100).toFixed(1)}%`;
+}
+
+/**
+ * Labels in rank table order, then labels not in the table, then "no rank"
+ */
+function orderLabels(outcomes: CaseOutcome[]): string[] {
+  const seen = new Set(outcomes.flatMap(o => [o.expected_rank, o.predicted_rank]));
+  const tableOrder = rankConfigService.getRanks().map(rank => rank.rank_name).filter(name => seen.has(name));
+  const unknown = [...seen].filter(name => name !== NO_RANK && !tableOrder.includes(name)).sort();
+  return [...tableOrder, ...unknown, ...(seen.has(NO_RANK) ? [NO_RANK] : [])];
+}
+
+function printReport(options: EvaluationOptions, outcomes: CaseOutcome[]): number {
+  const correct = outcomes.filter(o => o.predicted_rank === o.expected_rank).length;
+  const withLevel = outcomes.filter(o => o.expected_level !== undefined);
+  const levelCorrect = withLevel.filter(o => o.predicted_level === o.expected_level).length;
+  const accuracy = outcomes.length === 0 ? 0 : correct / outcomes.length;
+  const labels = orderLabels(outcomes);
+  const nameWidth = Math.max(4, ...labels.map(label => label.length));
+
+  console.log(`Rank matcher evaluation: ${outcomes.length} case(s) from ${options.dir} (${options.useOcr ? 'full OCR' : 'OCR text'})`);
+  console.log(`Rank accuracy:  ${correct}/${outcomes.length} (${percent(correct, outcomes.length)})`);
+  console.log(`Level accuracy: ${levelCorrect}/${withLevel.length} (${percent(levelCorrect, withLevel.length)})`);
+
+  console.log('\nPer-rank precision/recall:');
+  console.log(`  ${'Rank'.padEnd(nameWidth)}  Cases  Predicted  Precision  Recall`);
+  for (const label of labels) {
+    const expected = outcomes.filter(o => o.expected_rank === label).length;
+    const predicted = outcomes.filter(o => o.predicted_rank === label).length;
+    const truePositives = outcomes.filter(o => o.expected_rank === label && o.predicted_rank === label).length;
+    console.log(
+      `  ${label.padEnd(nameWidth)}  ${String(expected).padStart(5)}  ${String(predicted).padStart(9)}` +
+      `  ${percent(truePositives, predicted).padStart(9)}  ${percent(truePositives, expected).padStart(6)}`
+    );
+  }
+
+  // Columns are numbered to keep the matrix narrow; the legend maps numbers to ranks
+  console.log('\nConfusion matrix (rows: expected, columns: predicted):');
+  const cellWidth = Math.max(3, String(outcomes.length).length + 1);
+  const header = labels.map((_label, index) => String(index + 1).padStart(cellWidth)).join('');
+  console.log(`  ${''.padEnd(nameWidth + 5)}${header}`);
+  labels.forEach((expectedLabel, row) => {
+    const cells = labels.map(predictedLabel => {
+      const count = outcomes.filter(o => o.expected_rank === expectedLabel && o.predicted_rank === predictedLabel).length;
+      return (count === 0 ? '.' : String(count)).padStart(cellWidth);
+    });
+    console.log(`  ${String(row + 1).padStart(3)}. ${expectedLabel.padEnd(nameWidth)}${cells.join('')}`);
+  });
+
+  const failures = outcomes.filter(o =>
+    o.error || o.predicted_rank !== o.expected_rank || (o.expected_level !== undefined && o.predicted_level !== o.expected_level)
+  );
+  console.log(`\nFailures (${failures.length}):`);
+  for (const failure of failures) {
+    const expected = `${failure.expected_rank}${failure.expected_level !== undefined ? ` (level ${failure.expected_level})` : ''}`;
+    const predicted = failure.error
+      ? `error: ${failure.error}`
+      : `${failure.predicted_rank} (level ${failure.predicted_level ?? '?'}${failure.confidence !== null ? `, confidence ${failure.confidence.toFixed(2)}` : ''})`;
+    console.log(`  ${failure.file}: expected ${expected}, got ${predicted}`);
+  }
+
+  const passed = accuracy >= options.minAccuracy;
+  console.log(`\n${passed ? 'PASS' : 'FAIL'}: rank accuracy ${percent(correct, outcomes.length)} (minimum ${percent(options.minAccuracy, 1)})`);
+  return passed ? 0 : 1;
+}
+
+async function main(): Promise<number> {
+  // Keep matcher debug output out of the report
+  logger.setLevel(process.env.EVAL_LOG_LEVEL || 'warn');
+
+  let options: EvaluationOptions;
+  let cases: Array<{ file: string; data: EvaluationCase }>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    cases = loadCases(options.dir);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 2;
+  }
+
+  if (cases.length === 0) {
+    console.error(`No evaluation cases (.json) found in ${options.dir}`);
+    return 2;
+  }
+
+  // Evaluate the rank and confusion tables on disk, so edits are measured without a rebuild
+  rankConfigService.reload();
+  ocrConfusionService.initialize();
+
+  const outcomes: CaseOutcome[] = [];
+  try {
+    for (const { file, data } of cases) {
+      outcomes.push(await evaluateCase(options.dir, file, data, options.useOcr));
+    }
+  } finally {
+    if (options.useOcr) {
+      await ocrService.terminate();
+    }
+  }
+
+  return printReport(options, outcomes);
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exitCode = 2;
+  });
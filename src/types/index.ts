@@ -12,11 +12,330 @@ export interface MatchedRank {
   level_max: number;
   confidence: number;
   level_detected?: number;
+  word_confidence?: number;
+}
+
+export interface RankConfigReloadResult {
+  success: boolean;
+  errors: string[];
+  rank_count: number;
+}
+
+/**
+ * Where a level was read from, and how
+ */
+export type LevelSource = 'level_number' | 'level_progress' | 'page';
+export type LevelPattern = 'digits' | 'label_position' | 'label_text' | 'standalone_number';
+
+export interface LevelEvidence {
+  level: number;
+  source: LevelSource;
+  pattern: LevelPattern;
+  text: string; // OCR text the level was taken from
+}
+
+export interface RankEvidence {
+  level?: LevelEvidence;
+  level_in_range: boolean;
+  name_similarity: number; // 0-1 similarity of the OCR rank text to this rank's name
+  name_text?: string; // OCR text the name was compared against
+  agreement: boolean; // level and rank name both point at this rank
+}
+
+export interface RankCandidate extends MatchedRank {
+  evidence: RankEvidence;
+}
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+  words: OCRWord[];
 }
 
 export interface OCRResult {
   text: string;
   confidence: number;
+  variant?: string;
+  lines?: OCRLine[];
+  words?: OCRWord[];
+}
+
+export type ProfileRegionName = 'level_progress' | 'level_number' | 'rank' | 'unique_id' | 'username';
+
+/**
+ * Bounding box relative to the full screenshot (all values 0-1)
+ */
+export interface RegionBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ProfileLayout {
+  name: string;
+  aspect_min: number;
+  aspect_max: number;
+  regions: Partial<Record<ProfileRegionName, RegionBox>>;
+}
+
+export type ProfileRegions = Partial<Record<ProfileRegionName, OCRResult>>;
+
+export interface RegionOCRResult {
+  layout: string;
+  regions: ProfileRegions;
+}
+
+/**
+ * What was read from a screenshot: the OCR result, whether it is a profile screen, and the rank
+ * candidates and profile snapshot when it is
+ */
+export interface ScreenshotReading {
+  ocr: OCRResult;
+  regions?: ProfileRegions;
+  is_profile: boolean;
+  candidates: RankCandidate[];
+  language: string | null;
+  profile: ProfileSnapshot | null;
+}
+
+/**
+ * How a verification attempt ended
+ */
+export type VerificationStatus =
+  | 'verified'
+  | 'pending_review'
+  | 'rank_kept'
+  | 'blocked'
+  | 'not_profile'
+  | 'download_failed'
+  | 'ocr_busy'
+  | 'no_match'
+  | 'throttled'
+  | 'error';
+
+/**
+ * Result of a verification attempt, with what to tell the user
+ */
+export interface VerificationOutcome {
+  status: VerificationStatus;
+  title?: string;
+  message: string;
+  rank_name?: string;
+  // Lowest level of the rank, and the level read from the screenshot
+  level_min?: number;
+  level?: number;
+  // Set when the screenshot showed a lower rank than the user's current verification
+  previous_rank?: string;
+  downgrade_policy?: DowngradePolicy;
+  // Throttled attempts: whether the user still has to be told (once per throttled period)
+  notify?: boolean;
+}
+
+/**
+ * Image formats accepted for screenshots, detected from the file's leading bytes
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * A screenshot to archive, with the OCR result it was matched on
+ */
+export interface EvidenceSource {
+  file_path: string;
+  format: ImageFormat;
+  ocr_text: string;
+  ocr_confidence: number;
+  ocr_variant?: string;
+}
+
+/**
+ * The screenshot of a match sent for review, held apart from the archive until it is approved
+ */
+export interface PendingEvidence {
+  file_name: string;
+  format: ImageFormat;
+  ocr_text: string;
+  ocr_confidence: number;
+  ocr_variant?: string;
+}
+
+export type PreprocessingStep =
+  | { type: 'resize'; width?: number }
+  | { type: 'grayscale' }
+  | { type: 'normalize' }
+  | { type: 'contrast'; factor: number }
+  | { type: 'threshold'; value: number }
+  | { type: 'invert' }
+  | { type: 'invert_if_dark'; brightness?: number }
+  | { type: 'sharpen' }
+  | { type: 'crop'; left: number; top: number; width: number; height: number };
+
+export interface PreprocessingVariant {
+  name: string;
+  steps: PreprocessingStep[];
+}
+
+export interface PreprocessingConfig {
+  target_width: number;
+  variants: PreprocessingVariant[];
+}
+
+export interface OcrRectangle {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrRecognizeOptions {
+  // Only recognize this part of the image (pixels)
+  rectangle?: OcrRectangle;
+  // Labelled profile region being recognized, if any
+  region?: ProfileRegionName;
+  // Identity of the original (unpreprocessed) image
+  source?: OcrImageSource;
+  // 'digits' reads a single line restricted to 0-9
+  mode?: 'text' | 'digits';
+}
+
+export interface OcrImageSource {
+  hash: string;
+  filename?: string;
+}
+
+/**
+ * Canned OCR output for one image, used by the fixture engine
+ */
+export interface OcrFixture {
+  hash?: string;
+  filename?: string;
+  result: OCRResult;
+  regions?: ProfileRegions;
+  level_digits?: OCRResult;
+}
+
+/**
+ * A labelled screenshot for the matcher evaluation harness. The OCR text comes from the fixture
+ * stored next to the image (same name, .json), or from OCR fixture fields in the case itself.
+ */
+export interface EvaluationCase extends Partial<OcrFixture> {
+  expected: {
+    rank_name: string | null;
+    level?: number;
+  };
+  // Image to run through OCR with --ocr, relative to the case file
+  image?: string;
+}
+
+/**
+ * Text recognition backend used by the OCR service
+ */
+export interface OcrEngine {
+  readonly name: string;
+  initialize(): Promise<void>;
+  recognize(image: string | Buffer, options?: OcrRecognizeOptions): Promise<OCRResult>;
+  getStats(): OCRPoolStats | null;
+  terminate(): Promise<void>;
+}
+
+export interface OCRPoolStats {
+  workers: number;
+  busy_workers: number;
+  queue_depth: number;
+  max_queue_size: number;
+  completed_jobs: number;
+  failed_jobs: number;
+  timed_out_jobs: number;
+  rejected_jobs: number;
+  average_wait_ms: number;
+  average_processing_ms: number;
+}
+
+export interface OCRCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  max_entries: number;
+  persistent: boolean;
+}
+
+export interface LanguageKeywords {
+  name: string;
+  profile_indicators: Record<string, string[]>;
+  main_menu_indicators: Record<string, string[]>;
+  level_progress_labels: string[];
+  level_labels: string[];
+  rank_labels: string[];
+  unique_id_labels: string[];
+  stat_labels: Record<ProfileStatName, string[]>;
+}
+
+export type ProfileStatName = 'vip_level' | 'games_won' | 'win_percentage';
+
+/**
+ * A value read from the profile screenshot, with the OCR confidence it was read with (0-1)
+ */
+export interface ProfileField<T> {
+  value: T;
+  confidence: number;
+}
+
+/**
+ * Everything read from a profile screenshot, not just the rank. Fields that couldn't be read are null.
+ */
+export interface ProfileSnapshot {
+  username: ProfileField<string> | null;
+  unique_id: ProfileField<string> | null;
+  level: ProfileField<number> | null;
+  rank: ProfileField<string> | null;
+  stats: Record<ProfileStatName, ProfileField<number> | null>;
+}
+
+/**
+ * A pair of strings tesseract commonly confuses, with the edit cost of swapping them (0-1)
+ */
+export interface OcrConfusion {
+  ocr: string;
+  text: string;
+  cost: number;
+}
+
+export interface OcrConfusionConfig {
+  confusions: OcrConfusion[];
+}
+
+export interface ProfileClassifierConfig {
+  threshold: number;
+  weights: Record<string, number>; // indicator ID (see languages.json) -> weight
+}
+
+export interface ProfileIndicatorMatch {
+  id: string;
+  language: string;
+  kind: 'profile' | 'main_menu';
+  weight: number;
+  text: string; // matched OCR text
+}
+
+export interface ProfileClassification {
+  is_profile: boolean;
+  score: number;
+  threshold: number;
+  matched: ProfileIndicatorMatch[];
 }
 
 export interface VerificationData {
@@ -25,11 +344,159 @@ export interface VerificationData {
   rank_name: string;
   level_detected: number;
   role_id_assigned: string;
+  language?: string | null;
+  profile?: ProfileSnapshot | null;
+}
+
+/**
+ * Outcome of linking an 8 Ball Pool Unique ID: linked, rejected as badly formatted, or rejected
+ * because it differs from the ID read from the user's verification screenshot
+ */
+export interface AccountLinkResult {
+  status: 'linked' | 'invalid_format' | 'mismatch' | 'claimed';
+  unique_id: string | null;
+  // Whether the ID matches the one on the verification screenshot
+  verified: boolean;
+  screenshot_unique_id: string | null;
+}
+
+/**
+ * What to do when a screenshot shows an account already verified by another Discord user
+ */
+export type SharedAccountPolicy = 'block' | 'review' | 'allow';
+
+/**
+ * Other Discord users already bound to the in-game account on a screenshot, matched by Unique ID
+ * or (when no ID could be read) by in-game username
+ */
+export interface SharedAccountConflict {
+  key_type: 'unique_id' | 'username';
+  key: string;
+  discord_ids: string[];
+}
+
+/**
+ * An in-game account bound to more than one Discord user, by verification or by /link-account.
+ * Keyed by Unique ID, or by in-game username for verifications without a readable Unique ID.
+ */
+export interface SharedAccountGroup {
+  key_type: 'unique_id' | 'username';
+  key: string;
+  users: Array<{ discord_id: string; username?: string; source: 'verification' | 'link' }>;
+}
+
+/**
+ * Whether a user may submit a screenshot now, and if not, when they can try again
+ */
+export interface SubmissionLimitDecision {
+  allowed: boolean;
+  reason?: 'rate_limit' | 'invalid_cooldown';
+  retry_at?: Date;
+  // False when the user was already told about this throttled period
+  notify?: boolean;
+}
+
+/**
+ * What happens to a verification that wasn't renewed within the grace period after the reminder
+ */
+export type ExpiryAction = 'none' | 'remove' | 'mark';
+
+/**
+ * A verification old enough to need renewing, and where it stands
+ */
+export interface ExpiringVerification {
+  discord_id: string;
+  username: string;
+  rank_name: string;
+  // When the rank was last verified
+  verified_at: Date;
+  reminded_at: Date | null;
+  expired_at: Date | null;
+}
+
+/**
+ * Verifications the expiry check would act on
+ */
+export interface ExpiryPreview {
+  max_age_days: number;
+  grace_days: number;
+  action: ExpiryAction;
+  // No reminder yet: will be reminded
+  remind: ExpiringVerification[];
+  // Reminded and past the grace period: the expiry action will be applied
+  expire: ExpiringVerification[];
+  // Already expired and not renewed since
+  expired: ExpiringVerification[];
+}
+
+/**
+ * What to do when a screenshot looks like one another Discord user already submitted
+ */
+export type DuplicateScreenshotPolicy = 'block' | 'review' | 'allow';
+
+/**
+ * What became of a stored screenshot: it verified a rank, is waiting for review, or was rejected
+ */
+export type ScreenshotHashStatus = 'verified' | 'pending' | 'rejected';
+
+/**
+ * A screenshot submitted earlier by another Discord user that a new screenshot nearly matches
+ */
+export interface DuplicateScreenshotMatch {
+  hash_id: number;
+  discord_id: string;
+  username: string;
+  message_id: string | null;
+  channel_id: string | null;
+  guild_id: string | null;
+  rank_name: string | null;
+  level_detected: number | null;
+  status: ScreenshotHashStatus;
+  submitted_at: Date;
+  // Differing bits between the two perceptual hashes (0 = identical)
+  distance: number;
+}
+
+/**
+ * What to do when a screenshot shows a lower rank than the user's current verification:
+ * keep the higher rank, take the new one, or ask a moderator
+ */
+export type DowngradePolicy = 'highest' | 'latest' | 'review';
+
+/**
+ * Why a match was sent to moderators instead of being applied
+ */
+export type ReviewReason = 'low_confidence' | 'ambiguous' | 'level_name_disagreement' | 'level_jump' | 'shared_account' | 'duplicate_screenshot' | 'downgrade';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+/**
+ * A match held for moderator review, with everything needed to apply it later
+ */
+export interface ReviewSubmission {
+  discord_id: string;
+  username: string;
+  guild_id: string;
+  rank: RankCandidate;
+  candidates: RankCandidate[];
+  level: number;
+  reasons: ReviewReason[];
+  language?: string | null;
+  profile?: ProfileSnapshot | null;
+  image_url?: string;
+  image_name?: string;
+  shared_account?: SharedAccountConflict | null;
+  duplicate?: DuplicateScreenshotMatch | null;
+}
+
+export interface ReviewDecision {
+  success: boolean;
+  message: string;
 }
 
 export interface LogEntry {
   timestamp: Date;
-  action_type: 'role_assigned' | 'verification_updated' | 'command_executed' | 'error' | 'ocr_processed';
+  action_type: 'role_assigned' | 'verification_updated' | 'command_executed' | 'error' | 'ocr_processed' | 'review_requested' | 'review_resolved' | 'shared_account_detected' | 'duplicate_screenshot_detected' | 'downgrade_decision' | 'submission_throttled' | 'reverification_reminder' | 'verification_expired';
   user_id?: string;
   username?: string;
   rank_name?: string;
@@ -38,5 +505,11 @@ export interface LogEntry {
   success: boolean;
   error_message?: string;
   command_name?: string;
+  ocr_variant?: string;
+  language?: string;
+  reviewer_id?: string;
+  review_outcome?: ReviewStatus;
+  previous_rank?: string;
+  downgrade_policy?: DowngradePolicy;
 }
 